@@ -1,4 +1,4 @@
-import Fastify from 'fastify';
+import Fastify, { FastifyRequest, FastifyReply } from 'fastify';
 import cors from '@fastify/cors';
 import multipart from '@fastify/multipart';
 import rateLimit from '@fastify/rate-limit';
@@ -14,6 +14,12 @@ import { integrationsRoutes } from './modules/integrations/integrations.routes';
 import { apiRoutes } from './modules/api/api.routes';
 import { aiRoutes } from './modules/ai';
 import { adminRoutes } from './modules/admin';
+import { mediaRoutes } from './modules/media/media.routes';
+import { trackingRoutes, shortLinkRoutes } from './modules/messages/tracking.routes';
+import { preferencesRoutes } from './modules/contacts/preferences.routes';
+import { consentRoutes } from './modules/contacts/consent.routes';
+import { suppressionsRoutes } from './modules/suppressions/suppressions.routes';
+import { ensureTelegramWebhookSecrets } from './modules/integrations/integrations.service';
 import { validateApiKey } from './lib/auth';
 
 // Load environment variables
@@ -71,6 +77,11 @@ async function setupAuth() {
       '/health',
       '/webhooks/',
       '/ai/public/',
+      '/media/files/',
+      '/t/',
+      '/l/',
+      '/unsubscribe/',
+      '/consent/',
     ];
 
     const isPublic = publicRoutes.some(route => 
@@ -129,6 +140,12 @@ async function registerRoutes() {
   app.register(apiRoutes, { prefix: '/api/v1' });
   app.register(aiRoutes, { prefix: '/ai' });
   app.register(adminRoutes, { prefix: '/admin' });
+  app.register(mediaRoutes, { prefix: '/media' });
+  app.register(suppressionsRoutes, { prefix: '/suppressions' });
+  app.register(trackingRoutes, { prefix: '/t' }); // Email open/click tracking (public)
+  app.register(shortLinkRoutes, { prefix: '/l' }); // Campaign short links (public)
+  app.register(preferencesRoutes, { prefix: '/unsubscribe' }); // Unsubscribe and preference center (public)
+  app.register(consentRoutes, { prefix: '/consent' }); // Double opt-in confirmation (public)
 
   // Plan limits on sensitive endpoints (messages send + campaign start)
   app.addHook('preHandler', async (request, reply) => {
@@ -136,7 +153,8 @@ async function registerRoutes() {
     const method = request.method;
 
     const isMessageSend =
-      method === 'POST' && url.startsWith('/api/v1/messages/send');
+      method === 'POST' &&
+      (url.startsWith('/api/v1/messages/send') || url.startsWith('/api/v1/messages/batch'));
     const isCampaignStart =
       method === 'POST' && url.includes('/campaigns') && url.endsWith('/start');
 
@@ -147,14 +165,35 @@ async function registerRoutes() {
 
   // Webhooks (public, validated separately)
   app.register(async function (fastify) {
-    // WhatsApp webhook verification
-    fastify.get('/webhooks/whatsapp', async (request, reply) => {
+    // Signatures are computed over the exact bytes the provider sent
+    fastify.removeContentTypeParser('application/json');
+    fastify.addContentTypeParser('application/json', { parseAs: 'buffer' }, (request, body, done) => {
+      request.rawBody = body;
+      try {
+        done(null, body.length > 0 ? JSON.parse(body.toString('utf8')) : {});
+      } catch (error: any) {
+        error.statusCode = 400;
+        done(error, undefined);
+      }
+    });
+
+    // Twilio posts form-encoded
+    fastify.addContentTypeParser('application/x-www-form-urlencoded', { parseAs: 'buffer' }, (request, body, done) => {
+      request.rawBody = body;
+      done(null, Object.fromEntries(new URLSearchParams(body.toString('utf8'))));
+    });
+
+    // WhatsApp webhook verification (the verify token is generated per integration)
+    fastify.get('/webhooks/whatsapp/:integrationId', async (request, reply) => {
+      const { integrationId } = request.params as { integrationId: string };
       const mode = (request.query as any)['hub.mode'];
       const token = (request.query as any)['hub.verify_token'];
       const challenge = (request.query as any)['hub.challenge'];
 
-      if (mode === 'subscribe' && token === process.env.META_WEBHOOK_TOKEN) {
-        console.log('[Webhook] WhatsApp webhook verified');
+      const { verifyWhatsAppSubscription } = await import('./modules/integrations/webhook-verification.service');
+
+      if (mode === 'subscribe' && await verifyWhatsAppSubscription(integrationId, token)) {
+        console.log(`[Webhook] WhatsApp webhook verified for integration ${integrationId}`);
         return reply.send(challenge);
       }
 
@@ -162,19 +201,32 @@ async function registerRoutes() {
     });
 
     // WhatsApp webhook events
-    fastify.post('/webhooks/whatsapp', async (request, reply) => {
+    async function handleWhatsAppEvents(request: FastifyRequest, reply: FastifyReply) {
+      const { verifyWebhookRequest } = await import('./modules/integrations/webhook-verification.service');
+      const verified = await verifyWebhookRequest('WHATSAPP', request);
+      if (!verified) {
+        return reply.code(403).send('Forbidden');
+      }
+
       const { addWebhookJob } = await import('./lib/queue');
+      const integrationId = verified.integration.id;
       
       const body = request.body as any;
       
       if (body.entry) {
         for (const entry of body.entry) {
           for (const change of entry.changes) {
+            // A Meta app can deliver events of numbers that belong to other integrations
+            if (change.value.metadata?.phone_number_id !== verified.config.phoneNumberId) {
+              continue;
+            }
+
             if (change.value.messages) {
               for (const message of change.value.messages) {
                 await addWebhookJob({
                   channel: 'WHATSAPP',
                   event: 'message_received',
+                  integrationId,
                   payload: {
                     from: message.from,
                     text: message.text?.body || '',
@@ -189,6 +241,7 @@ async function registerRoutes() {
                 await addWebhookJob({
                   channel: 'WHATSAPP',
                   event: 'message_status',
+                  integrationId,
                   payload: {
                     messageId: status.id,
                     status: status.status,
@@ -201,17 +254,28 @@ async function registerRoutes() {
       }
 
       return reply.send({ status: 'ok' });
-    });
+    }
+
+    fastify.post('/webhooks/whatsapp/:integrationId', handleWhatsAppEvents);
+    fastify.post('/webhooks/whatsapp', handleWhatsAppEvents); // Shared URL from before per-integration routing
 
     // Twilio webhook
-    fastify.post('/webhooks/twilio', async (request, reply) => {
+    async function handleTwilioEvents(request: FastifyRequest, reply: FastifyReply) {
+      const { verifyWebhookRequest } = await import('./modules/integrations/webhook-verification.service');
+      const verified = await verifyWebhookRequest('SMS', request);
+      if (!verified) {
+        return reply.code(403).send('Forbidden');
+      }
+
       const { addWebhookJob } = await import('./lib/queue');
+      const integrationId = verified.integration.id;
       const body = request.body as any;
 
       if (body.MessageSid) {
         await addWebhookJob({
           channel: 'SMS',
           event: 'status_callback',
+          integrationId,
           payload: body,
         });
       }
@@ -220,6 +284,7 @@ async function registerRoutes() {
         await addWebhookJob({
           channel: 'SMS',
           event: 'incoming_message',
+          integrationId,
           payload: {
             From: body.From,
             Body: body.Body,
@@ -227,14 +292,71 @@ async function registerRoutes() {
         });
       }
 
+      return reply.send({ status: 'ok' });
+    }
+
+    fastify.post('/webhooks/twilio/:integrationId', handleTwilioEvents);
+    fastify.post('/webhooks/twilio', handleTwilioEvents); // Shared URL from before per-integration routing
+
+    // Email bounce/complaint notifications (sendgrid, mailgun, ses, postmark), keyed by the sending integration
+    fastify.post('/webhooks/email/:provider/:integrationId', async (request, reply) => {
+      const { provider } = request.params as { provider: string };
+      const { EMAIL_BOUNCE_PROVIDERS, parseProviderBounces } = await import('./modules/messages/email-bounces.service');
+
+      if (!EMAIL_BOUNCE_PROVIDERS.includes(provider as any)) {
+        return reply.code(404).send({ success: false, error: 'Unknown email provider' });
+      }
+
+      // SNS posts JSON as text/plain; parsed here so malformed payloads get a 400
+      if (typeof request.body === 'string') {
+        try {
+          request.body = JSON.parse(request.body);
+        } catch (error: any) {
+          return reply.code(400).send({ success: false, error: error.message });
+        }
+      }
+
+      const { verifyWebhookRequest } = await import('./modules/integrations/webhook-verification.service');
+      const verified = await verifyWebhookRequest('EMAIL', request);
+      if (!verified) {
+        return reply.code(403).send('Forbidden');
+      }
+
+      const body = request.body as any;
+      const { addWebhookJob } = await import('./lib/queue');
+
+      try {
+        // SES posts through SNS, which needs the subscription confirmed once
+        if (provider === 'ses' && body?.Type === 'SubscriptionConfirmation') {
+          const subscribeUrl = new URL(body.SubscribeURL);
+          if (subscribeUrl.protocol === 'https:' && subscribeUrl.hostname.endsWith('.amazonaws.com')) {
+            const axios = (await import('axios')).default;
+            await axios.get(subscribeUrl.toString());
+            console.log(`[Webhook] SES bounce subscription confirmed for integration ${verified.integration.id}`);
+          }
+          return reply.send({ status: 'ok' });
+        }
+
+        for (const bounce of parseProviderBounces(provider as any, body)) {
+          await addWebhookJob({
+            channel: 'EMAIL',
+            event: 'bounce',
+            integrationId: verified.integration.id,
+            payload: bounce,
+          });
+        }
+      } catch (error: any) {
+        return reply.code(400).send({ success: false, error: error.message });
+      }
+
       return reply.send({ status: 'ok' });
     });
 
     // Telegram webhook
-    fastify.post('/webhooks/telegram/:token', async (request, reply) => {
-      const { token } = request.params as { token: string };
-      
-      if (token !== process.env.TELEGRAM_BOT_TOKEN) {
+    fastify.post('/webhooks/telegram/:integrationId', async (request, reply) => {
+      const { verifyWebhookRequest } = await import('./modules/integrations/webhook-verification.service');
+      const verified = await verifyWebhookRequest('TELEGRAM', request);
+      if (!verified) {
         return reply.code(403).send('Forbidden');
       }
 
@@ -245,6 +367,7 @@ async function registerRoutes() {
         await addWebhookJob({
           channel: 'TELEGRAM',
           event: 'message',
+          integrationId: verified.integration.id,
           payload: body,
         });
       }
@@ -266,6 +389,11 @@ async function start() {
 
     await app.listen({ port, host });
     console.log(`🚀 Server running at http://${host}:${port}`);
+
+    // Once the webhook URL is reachable, so Telegram accepts the new registration
+    ensureTelegramWebhookSecrets().catch(error => {
+      console.error('[Integrations] Telegram webhook secret migration failed:', error.message);
+    });
   } catch (err) {
     app.log.error(err);
     process.exit(1);
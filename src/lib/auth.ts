@@ -1,7 +1,7 @@
 import { prisma } from './prisma';
 
 // API Key authentication helper (includes tenant and plan for multi-tenant context)
-export async function validateApiKey(apiKey: string): Promise<{ userId: string; tenantId: string; plan: string; permissions: string[] } | null> {
+export async function validateApiKey(apiKey: string): Promise<{ apiKeyId: string; userId: string; tenantId: string; plan: string; permissions: string[] } | null> {
   const { hashApiKey } = await import('./crypto');
   const keyHash = hashApiKey(apiKey);
   
@@ -17,6 +17,7 @@ export async function validateApiKey(apiKey: string): Promise<{ userId: string;
   }
   
   return {
+    apiKeyId: apiKeyRecord.id,
     userId: apiKeyRecord.userId,
     tenantId: apiKeyRecord.user.tenantId,
     plan: apiKeyRecord.user.plan,
@@ -1,4 +1,4 @@
-import { createCipheriv, createDecipheriv, randomBytes, createHash } from 'crypto';
+import { createCipheriv, createDecipheriv, randomBytes, createHash, createHmac, timingSafeEqual } from 'crypto';
 
 const ENCRYPTION_KEY = process.env.ENCRYPTION_KEY || '';
 
@@ -47,3 +47,25 @@ export function generateApiKey(): string {
 export function generateRandomToken(length: number = 32): string {
   return randomBytes(length).toString('hex');
 }
+
+// URL-safe "payload.signature" token, e.g. for tracking links
+export function signToken(payload: string): string {
+  const encoded = Buffer.from(payload).toString('base64url');
+  const signature = createHmac('sha256', key).update(encoded).digest('base64url').slice(0, 22);
+  return `${encoded}.${signature}`;
+}
+
+// Returns the payload, or null when the token was tampered with
+export function verifyToken(token: string): string | null {
+  const [encoded, signature] = token.split('.');
+  if (!encoded || !signature) {
+    return null;
+  }
+
+  const expected = createHmac('sha256', key).update(encoded).digest('base64url').slice(0, 22);
+  if (signature.length !== expected.length || !timingSafeEqual(Buffer.from(signature), Buffer.from(expected))) {
+    return null;
+  }
+
+  return Buffer.from(encoded, 'base64url').toString();
+}
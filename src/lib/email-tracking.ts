@@ -0,0 +1,61 @@
+import { signToken, verifyToken } from './crypto';
+
+// Open pixel and click redirects for outgoing email HTML.
+// Tokens are signed, so a click link can't be edited into an open redirect.
+
+// Added to every tracked email; bounce notifications quote it back so they can be matched
+export const MESSAGE_REF_HEADER = 'X-Becastly-Message-Id';
+
+export type TrackingPayload = {
+  messageId: string;
+  url?: string; // Click target
+};
+
+const LINK_REGEX = /(<a\b[^>]*?\bhref\s*=\s*)(["'])(https?:\/\/[^"']+)\2/gi;
+
+export function getTrackingBaseUrl() {
+  return `${process.env.APP_URL}/t`;
+}
+
+export function createTrackingToken(payload: TrackingPayload): string {
+  return signToken(JSON.stringify(payload.url ? { m: payload.messageId, u: payload.url } : { m: payload.messageId }));
+}
+
+export function parseTrackingToken(token: string): TrackingPayload | null {
+  const raw = verifyToken(token);
+  if (!raw) {
+    return null;
+  }
+
+  try {
+    const { m, u } = JSON.parse(raw);
+    if (typeof m !== 'string') {
+      return null;
+    }
+    return { messageId: m, url: typeof u === 'string' ? u : undefined };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Points every http(s) link at the click redirect and appends the open pixel.
+ * `skipUrls` stay untouched (e.g. the unsubscribe link).
+ */
+export function addEmailTracking(html: string, messageId: string, options: { skipUrls?: string[] } = {}): string {
+  const baseUrl = getTrackingBaseUrl();
+
+  const tracked = html.replace(LINK_REGEX, (match, prefix: string, quote: string, href: string) => {
+    const url = href.replace(/&amp;/g, '&');
+    if (url.startsWith(baseUrl) || options.skipUrls?.includes(url)) {
+      return match;
+    }
+    return `${prefix}${quote}${baseUrl}/c/${createTrackingToken({ messageId, url })}${quote}`;
+  });
+
+  const pixel = `<img src="${baseUrl}/o/${createTrackingToken({ messageId })}" width="1" height="1" alt="" style="display:none" />`;
+
+  return /<\/body>/i.test(tracked)
+    ? tracked.replace(/<\/body>/i, `${pixel}</body>`)
+    : tracked + pixel;
+}
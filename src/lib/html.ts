@@ -0,0 +1,38 @@
+// Helpers for the small public HTML pages and emails (unsubscribe, consent, reports)
+
+export const CHANNEL_LABELS: Record<string, string> = {
+  EMAIL: 'Email',
+  SMS: 'SMS',
+  WHATSAPP: 'WhatsApp',
+  TELEGRAM: 'Telegram',
+};
+
+export function escapeHtml(value: string) {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+export function renderPage(title: string, body: string) {
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8" />
+<meta name="viewport" content="width=device-width, initial-scale=1" />
+<title>${escapeHtml(title)}</title>
+<style>
+  body { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', sans-serif; max-width: 480px; margin: 48px auto; padding: 0 16px; color: #111827; }
+  fieldset { border: 1px solid #e5e7eb; border-radius: 8px; margin: 16px 0; padding: 12px 16px; }
+  label { display: block; margin: 6px 0; }
+  button { background: #111827; color: #fff; border: 0; border-radius: 6px; padding: 10px 16px; cursor: pointer; }
+  .muted { color: #6b7280; }
+</style>
+</head>
+<body>
+<h1>${escapeHtml(title)}</h1>
+${body}
+</body>
+</html>`;
+}
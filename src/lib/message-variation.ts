@@ -0,0 +1,107 @@
+import { createHash } from 'crypto';
+import { isKnownVariable } from './template-renderer';
+
+// Per-recipient wording variation so a blast isn't byte-identical for every contact.
+// Everything is seeded (campaign + contact), so the same message always resolves the same way.
+
+export type VariationOptions = {
+  synonyms?: boolean;
+  paraphrases?: string[]; // Alternatives to the template, e.g. AI rewrites
+  knownVariables?: string[]; // Extra variables, so {var|default} isn't mistaken for spintax
+};
+
+// Interchangeable words/phrases, matched case-insensitively on word boundaries
+const SYNONYM_GROUPS: string[][] = [
+  ['hi', 'hello', 'hey'],
+  ['thanks', 'thank you', 'many thanks'],
+  ['great', 'excellent', 'fantastic'],
+  ['quick', 'short', 'brief'],
+  ['check out', 'take a look at', 'have a look at'],
+  ['offer', 'deal'],
+  ['let me know', 'let us know', 'tell us'],
+  ['happy to help', 'glad to help', 'here to help'],
+];
+
+const SPINTAX_GROUP = /\{([^{}]*\|[^{}]*)\}/g;
+
+// Deterministic PRNG (mulberry32) seeded from a string
+export function createSeededRandom(seed: string): () => number {
+  let state = createHash('sha256').update(seed).digest().readUInt32LE(0);
+
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+export function getMessageSeed(campaignId: string, contactId: string, runId?: string | null) {
+  return [campaignId, contactId, runId].filter(Boolean).join(':');
+}
+
+/**
+ * Resolves {Hi|Hello|Hey} groups, innermost first so groups can be nested.
+ * A group whose first option is a template variable is a default ({name|friend}) and is kept.
+ */
+export function resolveSpintax(template: string, random: () => number, knownVariables: string[] = []): string {
+  let result = template;
+  let previous: string;
+
+  do {
+    previous = result;
+    result = result.replace(SPINTAX_GROUP, (match, body: string) => {
+      const options = body.split('|');
+      if (isKnownVariable(options[0].split(':')[0].trim(), knownVariables)) {
+        return match;
+      }
+      return options[Math.floor(random() * options.length)];
+    });
+  } while (result !== previous);
+
+  return result;
+}
+
+function matchCase(source: string, replacement: string) {
+  if (source === source.toUpperCase() && source !== source.toLowerCase()) {
+    return replacement.toUpperCase();
+  }
+  if (source[0] === source[0].toUpperCase()) {
+    return replacement[0].toUpperCase() + replacement.slice(1);
+  }
+  return replacement;
+}
+
+// Swaps known words for a synonym; placeholders and tags are left untouched
+export function applySynonyms(text: string, random: () => number): string {
+  const parts = text.split(/(\{[^{}]*\})/);
+
+  return parts.map(part => {
+    if (part.startsWith('{')) {
+      return part;
+    }
+
+    let output = part;
+    for (const group of SYNONYM_GROUPS) {
+      const pattern = new RegExp(`\\b(${group.map(w => w.replace(/ /g, '\\s+')).join('|')})\\b`, 'gi');
+      output = output.replace(pattern, match => matchCase(match, group[Math.floor(random() * group.length)]));
+    }
+    return output;
+  }).join('');
+}
+
+// Picks the wording one recipient gets; the result still contains template variables
+export function varyMessage(template: string, seed: string, options: VariationOptions = {}): string {
+  const random = createSeededRandom(seed);
+  const candidates = [template, ...(options.paraphrases || [])];
+
+  let content = candidates[Math.floor(random() * candidates.length)];
+  content = resolveSpintax(content, random, options.knownVariables);
+
+  if (options.synonyms) {
+    content = applySynonyms(content, random);
+  }
+
+  return content;
+}
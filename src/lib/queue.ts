@@ -25,12 +25,13 @@ export const campaignQueue = new Queue('campaign', {
 });
 
 // Message Queue for individual messages
+// Only transient provider errors are retried; permanent ones fail immediately
 export const messageQueue = new Queue('message', {
   connection: redisConnection,
   defaultJobOptions: {
-    attempts: 3,
+    attempts: 5,
     backoff: {
-      type: 'fixed',
+      type: 'exponential',
       delay: 10000,
     },
     removeOnComplete: 500,
@@ -50,6 +51,12 @@ export const webhookQueue = new Queue('webhook', {
   },
 });
 
+// Dead-letter queue for messages that exhausted retries or failed permanently.
+// Nothing consumes it; jobs are inspected and requeued through the campaigns API.
+export const deadLetterQueue = new Queue('dead-letter', {
+  connection: redisConnection,
+});
+
 export type CampaignJobData = {
   campaignId: string;
   userId: string;
@@ -64,25 +71,87 @@ export type MessageJobData = {
   userId: string;
 };
 
+// Double opt-in confirmations sent in bulk (imports) share the message queue and its rate limits
+export const CONSENT_CONFIRMATION_JOB = 'send-consent-confirmation';
+
+export type ConsentConfirmationJobData = {
+  consentId: string;
+};
+
+export type DeadLetterJobData = MessageJobData & {
+  errorType: string;
+  error: string;
+  attemptsMade: number;
+  failedAt: string;
+};
+
 export type WebhookJobData = {
   channel: string;
   event: string;
+  integrationId?: string; // Integration the webhook was verified against; scopes the job to its tenant
   payload: Record<string, any>;
 };
 
-export async function addCampaignJob(data: CampaignJobData, delay?: number) {
+export async function addCampaignJob(data: CampaignJobData, delay?: number, jobId?: string) {
   return campaignQueue.add('process-campaign', data, {
     delay,
-    jobId: data.campaignId,
+    jobId: jobId || data.campaignId,
+  });
+}
+
+export async function addAbEvaluationJob(data: CampaignJobData, delay: number) {
+  return campaignQueue.add('evaluate-ab-test', data, {
+    delay,
   });
 }
 
+// One scheduler per recurring campaign; upserting replaces the previous pattern
+export async function upsertRecurringCampaignJob(data: CampaignJobData, pattern: string, tz: string) {
+  return campaignQueue.upsertJobScheduler(
+    getRecurringSchedulerId(data.campaignId),
+    { pattern, tz },
+    { name: 'recurring-run', data },
+  );
+}
+
+export async function removeRecurringCampaignJob(campaignId: string) {
+  return campaignQueue.removeJobScheduler(getRecurringSchedulerId(campaignId));
+}
+
+function getRecurringSchedulerId(campaignId: string) {
+  return `recurring-${campaignId}`;
+}
+
+// Bounce mailboxes are read on a fixed interval by the webhook worker
+export async function scheduleBouncePolling(everyMs: number) {
+  return webhookQueue.upsertJobScheduler(
+    'email-bounce-poll',
+    { every: everyMs },
+    { name: 'email-bounce-poll', data: { channel: 'EMAIL', event: 'bounce_poll', payload: {} } },
+  );
+}
+
 export async function addMessageJob(data: MessageJobData, delay: number) {
   return messageQueue.add('send-message', data, {
     delay: delay * 1000, // Convert to milliseconds
   });
 }
 
+export async function addConsentConfirmationJob(data: ConsentConfirmationJobData) {
+  // One pending confirmation per consent record
+  return messageQueue.add(CONSENT_CONFIRMATION_JOB, data, {
+    jobId: `consent-${data.consentId}`,
+  });
+}
+
+export async function addDeadLetterJob(data: DeadLetterJobData) {
+  // One entry per message; requeueing removes it by id
+  await deadLetterQueue.remove(data.messageId);
+  return deadLetterQueue.add('dead-message', data, {
+    jobId: data.messageId,
+  });
+}
+
 export async function addWebhookJob(data: WebhookJobData) {
   return webhookQueue.add('process-webhook', data);
 }
@@ -91,6 +160,7 @@ export async function closeQueues() {
   await campaignQueue.close();
   await messageQueue.close();
   await webhookQueue.close();
+  await deadLetterQueue.close();
   await redisConnection.quit();
 }
 
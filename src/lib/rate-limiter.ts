@@ -0,0 +1,104 @@
+import { redisConnection } from './queue';
+
+export type RateLimitConfig = {
+  rateLimitPerSecond: number | null;
+  rateLimitPerMinute: number | null;
+  rateLimitPerDay: number | null;
+};
+
+export type RateLimitBucketState = {
+  limit: number;
+  remaining: number;
+};
+
+const WINDOWS = [
+  { name: 'perSecond', field: 'rateLimitPerSecond', ms: 1000 },
+  { name: 'perMinute', field: 'rateLimitPerMinute', ms: 60 * 1000 },
+  { name: 'perDay', field: 'rateLimitPerDay', ms: 24 * 60 * 60 * 1000 },
+] as const;
+
+export type RateLimitWindow = (typeof WINDOWS)[number]['name'];
+
+// Token buckets shared by all worker replicas. Either every bucket has a token and
+// one is taken from each, or nothing is consumed and the wait (ms) until the
+// emptiest bucket refills is returned.
+// KEYS: bucket keys; ARGV: capacity and window (ms) for each key, in order.
+const TAKE_TOKEN_SCRIPT = `
+local time = redis.call('TIME')
+local now = tonumber(time[1]) * 1000 + math.floor(tonumber(time[2]) / 1000)
+local wait = 0
+local tokens = {}
+
+for i, key in ipairs(KEYS) do
+  local capacity = tonumber(ARGV[i * 2 - 1])
+  local window = tonumber(ARGV[i * 2])
+  local rate = capacity / window
+  local bucket = redis.call('HMGET', key, 'tokens', 'ts')
+  local current = tonumber(bucket[1]) or capacity
+  local ts = tonumber(bucket[2]) or now
+  current = math.min(capacity, current + math.max(0, now - ts) * rate)
+  if current < 1 then
+    wait = math.max(wait, math.ceil((1 - current) / rate))
+  end
+  tokens[i] = current
+end
+
+if wait > 0 then
+  return wait
+end
+
+for i, key in ipairs(KEYS) do
+  redis.call('HSET', key, 'tokens', tostring(tokens[i] - 1), 'ts', tostring(now))
+  redis.call('PEXPIRE', key, tonumber(ARGV[i * 2]) * 2)
+end
+
+return 0
+`;
+
+function getBucketKey(integrationId: string, window: string) {
+  return `ratelimit:integration:${integrationId}:${window}`;
+}
+
+function getActiveWindows(limits: RateLimitConfig) {
+  return WINDOWS.filter(window => (limits[window.field] || 0) > 0);
+}
+
+/**
+ * Takes one send token for the integration.
+ * Returns 0 when the send may proceed, otherwise the milliseconds to wait.
+ */
+export async function takeIntegrationToken(
+  integration: { id: string } & RateLimitConfig,
+): Promise<number> {
+  const windows = getActiveWindows(integration);
+  if (windows.length === 0) {
+    return 0;
+  }
+
+  const keys = windows.map(window => getBucketKey(integration.id, window.name));
+  const args = windows.flatMap(window => [integration[window.field] as number, window.ms]);
+
+  const wait = await redisConnection.eval(TAKE_TOKEN_SCRIPT, keys.length, ...keys, ...args);
+  return Number(wait) || 0;
+}
+
+// Current bucket levels for display; does not consume tokens
+export async function getIntegrationRateLimitState(
+  integration: { id: string } & RateLimitConfig,
+): Promise<Partial<Record<RateLimitWindow, RateLimitBucketState>>> {
+  const state: Partial<Record<RateLimitWindow, RateLimitBucketState>> = {};
+  const now = Date.now();
+
+  for (const window of getActiveWindows(integration)) {
+    const limit = integration[window.field] as number;
+    const [tokens, ts] = await redisConnection.hmget(getBucketKey(integration.id, window.name), 'tokens', 'ts');
+
+    const current = tokens === null
+      ? limit
+      : Math.min(limit, parseFloat(tokens) + Math.max(0, now - Number(ts)) * (limit / window.ms));
+
+    state[window.name] = { limit, remaining: Math.floor(current) };
+  }
+
+  return state;
+}
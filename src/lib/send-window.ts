@@ -0,0 +1,71 @@
+import { getZonedParts } from './timezone';
+
+export type SendWindow = {
+  start: string | null; // "HH:mm" in the recipient's timezone
+  end: string | null;
+  days: number[]; // 0 = Sunday ... 6 = Saturday, empty = every day
+};
+
+const MINUTES_PER_DAY = 24 * 60;
+
+export const TIME_OF_DAY_REGEX = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+function toMinutes(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+}
+
+export function getCampaignSendWindow(campaign: {
+  sendWindowStart: string | null;
+  sendWindowEnd: string | null;
+  sendDays: number[];
+}): SendWindow {
+  return {
+    start: campaign.sendWindowStart,
+    end: campaign.sendWindowEnd,
+    days: campaign.sendDays,
+  };
+}
+
+export function hasSendWindow(window: SendWindow): boolean {
+  return Boolean(window.start && window.end) || window.days.length > 0;
+}
+
+function isMinuteInWindow(minute: number, start: number, end: number): boolean {
+  if (start === end) return true;
+  // Windows such as 22:00-06:00 wrap past midnight
+  return start < end ? minute >= start && minute < end : minute >= start || minute < end;
+}
+
+/**
+ * Seconds to wait from `at` until the window is open for a recipient in `timezone`.
+ * Returns 0 when sending is allowed right away.
+ * DST transitions can shift the result by up to an hour, which is fine for pacing.
+ */
+export function getSendWindowDelaySeconds(window: SendWindow, timezone: string, at: Date = new Date()): number {
+  if (!hasSendWindow(window)) {
+    return 0;
+  }
+
+  const { weekday, hour, minute } = getZonedParts(at, timezone);
+  const nowMinute = hour * 60 + minute;
+  const start = window.start && window.end ? toMinutes(window.start) : 0;
+  const end = window.start && window.end ? toMinutes(window.end) : 0;
+  const isDayAllowed = (day: number) => window.days.length === 0 || window.days.includes(day);
+
+  if (isDayAllowed(weekday) && isMinuteInWindow(nowMinute, start, end)) {
+    return 0;
+  }
+
+  // Find the next allowed day whose window start is still ahead of us
+  for (let offset = 0; offset <= 7; offset++) {
+    const day = (weekday + offset) % 7;
+    if (!isDayAllowed(day)) continue;
+    if (offset === 0 && start <= nowMinute) continue;
+
+    const waitMinutes = offset * MINUTES_PER_DAY + start - nowMinute;
+    return waitMinutes * 60 - at.getUTCSeconds();
+  }
+
+  return 0;
+}
@@ -1,5 +1,7 @@
 import { prisma } from './prisma';
-import { addMessageJob, MessageJobData } from './queue';
+import { addMessageJob, MessageJobData, redisConnection } from './queue';
+import { getCampaignSendWindow, getSendWindowDelaySeconds, hasSendWindow } from './send-window';
+import { resolveContactTimezone } from './timezone';
 
 type ComplianceOptions = {
   tenantId: string;
@@ -9,10 +11,35 @@ type ComplianceOptions = {
   dailyLimit: number;
   minDelaySeconds: number;
   maxDelaySeconds: number;
+  cooldownSeconds: number;
 };
 
-// Simple in-memory cooldown map (per worker instance)
-const contactCooldowns = new Map<string, number>();
+export type ComplianceBatchResult = {
+  queued: number;
+  deferred: number;
+  retryAfterSeconds?: number;
+};
+
+// Cooldowns live in Redis so every worker replica shares the same view
+function getCooldownKey(tenantId: string, contactId: string, channel: string) {
+  return `cooldown:${tenantId}:${contactId}:${channel}`;
+}
+
+// Atomically claims the contact for this channel; returns false while a previous claim is still cooling down.
+// The cooldown runs from the scheduled send time, so it includes the job delay.
+async function claimContactCooldown(key: string, cooldownSeconds: number, delaySeconds: number): Promise<boolean> {
+  if (cooldownSeconds <= 0) {
+    return true;
+  }
+
+  const result = await redisConnection.set(key, Date.now().toString(), 'EX', cooldownSeconds + delaySeconds, 'NX');
+  return result === 'OK';
+}
+
+// Gives the claim back when the send didn't happen after all (failed enqueue, skipped job)
+export async function releaseContactSend(tenantId: string, contactId: string, channel: string) {
+  await redisConnection.del(getCooldownKey(tenantId, contactId, channel));
+}
 
 function getRandomDelay(minSeconds: number, maxSeconds: number) {
   const min = Math.max(0, minSeconds);
@@ -22,9 +49,17 @@ function getRandomDelay(minSeconds: number, maxSeconds: number) {
 
 export async function enqueueComplianceBatch(
   options: ComplianceOptions,
-): Promise<{ queued: number }> {
-  const { tenantId, userId, campaignId, channel, dailyLimit, minDelaySeconds, maxDelaySeconds } =
-    options;
+): Promise<ComplianceBatchResult> {
+  const {
+    tenantId,
+    userId,
+    campaignId,
+    channel,
+    dailyLimit,
+    minDelaySeconds,
+    maxDelaySeconds,
+    cooldownSeconds,
+  } = options;
 
   // Fetch pending messages for this tenant/campaign
   const campaign = await prisma.campaign.findFirst({
@@ -32,19 +67,20 @@ export async function enqueueComplianceBatch(
   });
 
   if (!campaign || campaign.status !== 'RUNNING') {
-    return { queued: 0 };
+    return { queued: 0, deferred: 0 };
   }
 
   const remainingForDay = Math.max(0, dailyLimit - campaign.sentCount);
   if (remainingForDay <= 0) {
-    return { queued: 0 };
+    return { queued: 0, deferred: 0 };
   }
 
   const pendingMessages = await prisma.message.findMany({
     where: {
       tenantId,
       campaignId,
-      status: { in: ['PENDING', 'QUEUED'] },
+      // QUEUED messages already have a job (retries and fallbacks included)
+      status: 'PENDING',
     },
     include: {
       contact: true,
@@ -54,44 +90,80 @@ export async function enqueueComplianceBatch(
   });
 
   if (pendingMessages.length === 0) {
-    return { queued: 0 };
+    return { queued: 0, deferred: 0 };
   }
 
+  const sendWindow = getCampaignSendWindow(campaign);
+  const windowed = hasSendWindow(sendWindow);
+  // Messages pushed to a window opening are paced from that opening, per timezone
+  const windowPacing = new Map<string, number>();
+
   let accumulatedDelaySeconds = 0;
   let queued = 0;
+  let deferred = 0;
+  let retryAfterSeconds: number | undefined;
 
   for (const message of pendingMessages) {
-    const contactKey = `${tenantId}:${message.contactId}:${channel}`;
-    const now = Date.now();
-    const cooldownUntil = contactCooldowns.get(contactKey) || 0;
+    const pacingDelay = getRandomDelay(minDelaySeconds, maxDelaySeconds);
+    const pacedDelaySeconds = accumulatedDelaySeconds + pacingDelay;
+    let delaySeconds = pacedDelaySeconds;
+
+    if (windowed) {
+      const timezone = resolveContactTimezone(message.contact);
+      const sendAt = new Date(Date.now() + pacedDelaySeconds * 1000);
+      const windowDelay = getSendWindowDelaySeconds(sendWindow, timezone, sendAt);
+
+      if (windowDelay > 0) {
+        const offset = (windowPacing.get(timezone) || 0) + pacingDelay;
+        windowPacing.set(timezone, offset);
+        delaySeconds = pacedDelaySeconds + windowDelay + offset;
+      }
+    }
 
-    // Simple per-contact cooldown: skip if still cooling down
-    if (cooldownUntil > now) {
+    const cooldownKey = getCooldownKey(tenantId, message.contactId, channel);
+
+    // Contact is still cooling down (possibly claimed by another replica): leave it PENDING for a later batch
+    if (!(await claimContactCooldown(cooldownKey, cooldownSeconds, delaySeconds))) {
+      const ttl = await redisConnection.ttl(cooldownKey);
+      const waitSeconds = Math.max(1, ttl);
+      retryAfterSeconds = retryAfterSeconds === undefined ? waitSeconds : Math.min(retryAfterSeconds, waitSeconds);
+      deferred++;
       continue;
     }
 
-    const delay = getRandomDelay(minDelaySeconds, maxDelaySeconds);
-    accumulatedDelaySeconds += delay;
+    // Only in-window sends advance the shared pacing clock
+    if (delaySeconds === pacedDelaySeconds) {
+      accumulatedDelaySeconds = pacedDelaySeconds;
+    }
+
+    // Claimed before enqueueing so overlapping batches (retries, requeue, resume) can't both send it
+    const claimed = await prisma.message.updateMany({
+      where: { id: message.id, status: 'PENDING' },
+      data: { status: 'QUEUED' },
+    });
+    if (claimed.count === 0) {
+      await releaseContactSend(tenantId, message.contactId, channel);
+      continue;
+    }
 
     const jobData: MessageJobData = {
       messageId: message.id,
       campaignId,
       contactId: message.contactId,
-      channel,
+      channel: message.channel,
       content: message.content,
       userId,
     };
 
-    await addMessageJob(jobData, accumulatedDelaySeconds);
-
-    await prisma.message.update({
-      where: { id: message.id },
-      data: { status: 'QUEUED' },
-    });
+    try {
+      await addMessageJob(jobData, delaySeconds);
+    } catch (error) {
+      // Released so the next batch picks it up again
+      await prisma.message.update({ where: { id: message.id }, data: { status: 'PENDING' } });
+      await releaseContactSend(tenantId, message.contactId, channel);
+      throw error;
+    }
 
-    // Set a basic cooldown per contact (e.g., 5 minutes)
-    const cooldownMs = 5 * 60 * 1000;
-    contactCooldowns.set(contactKey, now + cooldownMs);
     queued++;
   }
 
@@ -104,6 +176,6 @@ export async function enqueueComplianceBatch(
     });
   }
 
-  return { queued };
+  return { queued, deferred, retryAfterSeconds };
 }
 
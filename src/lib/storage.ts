@@ -0,0 +1,146 @@
+import { createHash, createHmac } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import axios from 'axios';
+
+// File storage for uploads. STORAGE_DRIVER=local (default) writes to disk and serves
+// files from /media/files; STORAGE_DRIVER=s3 uploads to any S3-compatible bucket.
+// Providers (WhatsApp, Twilio, Telegram) download media from the public URL.
+
+export interface StorageDriver {
+  put(key: string, body: Buffer, contentType: string): Promise<void>;
+  get(key: string): Promise<Buffer>;
+  delete(key: string): Promise<void>;
+  getUrl(key: string): string;
+}
+
+// Keys are generated server-side: random hex + extension
+export const STORAGE_KEY_REGEX = /^[a-f0-9]{32}(\.[a-z0-9]+)?$/;
+
+function assertKey(key: string) {
+  if (!STORAGE_KEY_REGEX.test(key)) {
+    throw new Error('Invalid storage key');
+  }
+}
+
+class LocalStorage implements StorageDriver {
+  private dir = process.env.STORAGE_LOCAL_DIR || path.join(process.cwd(), 'uploads');
+  private publicUrl = process.env.STORAGE_PUBLIC_URL || `${process.env.APP_URL}/media/files`;
+
+  async put(key: string, body: Buffer) {
+    assertKey(key);
+    await fs.mkdir(this.dir, { recursive: true });
+    await fs.writeFile(path.join(this.dir, key), body);
+  }
+
+  async get(key: string) {
+    assertKey(key);
+    return fs.readFile(path.join(this.dir, key));
+  }
+
+  async delete(key: string) {
+    assertKey(key);
+    await fs.rm(path.join(this.dir, key), { force: true });
+  }
+
+  getUrl(key: string) {
+    return `${this.publicUrl}/${key}`;
+  }
+}
+
+// Path-style requests signed with AWS Signature V4 (AWS S3, MinIO, R2, Spaces, ...)
+class S3Storage implements StorageDriver {
+  private endpoint = new URL(process.env.S3_ENDPOINT || 'https://s3.amazonaws.com');
+  private region = process.env.S3_REGION || 'us-east-1';
+  private bucket = process.env.S3_BUCKET || '';
+  private accessKeyId = process.env.S3_ACCESS_KEY_ID || '';
+  private secretAccessKey = process.env.S3_SECRET_ACCESS_KEY || '';
+
+  constructor() {
+    if (!this.bucket || !this.accessKeyId || !this.secretAccessKey) {
+      throw new Error('S3 storage requires S3_BUCKET, S3_ACCESS_KEY_ID and S3_SECRET_ACCESS_KEY');
+    }
+  }
+
+  private objectPath(key: string) {
+    return `${this.endpoint.pathname.replace(/\/$/, '')}/${this.bucket}/${key}`;
+  }
+
+  private signedHeaders(method: string, key: string, body: Buffer = Buffer.alloc(0)) {
+    const amzDate = new Date().toISOString().replace(/[:-]|\.\d{3}/g, '');
+    const dateStamp = amzDate.slice(0, 8);
+    const payloadHash = createHash('sha256').update(body).digest('hex');
+    const host = this.endpoint.host;
+    const signedHeaders = 'host;x-amz-content-sha256;x-amz-date';
+
+    const canonicalRequest = [
+      method,
+      this.objectPath(key),
+      '',
+      `host:${host}\nx-amz-content-sha256:${payloadHash}\nx-amz-date:${amzDate}\n`,
+      signedHeaders,
+      payloadHash,
+    ].join('\n');
+
+    const scope = `${dateStamp}/${this.region}/s3/aws4_request`;
+    const stringToSign = [
+      'AWS4-HMAC-SHA256',
+      amzDate,
+      scope,
+      createHash('sha256').update(canonicalRequest).digest('hex'),
+    ].join('\n');
+
+    const signingKey = [dateStamp, this.region, 's3', 'aws4_request']
+      .reduce<Buffer | string>((key, part) => createHmac('sha256', key).update(part).digest(), `AWS4${this.secretAccessKey}`);
+    const signature = createHmac('sha256', signingKey).update(stringToSign).digest('hex');
+
+    return {
+      'x-amz-content-sha256': payloadHash,
+      'x-amz-date': amzDate,
+      Authorization: `AWS4-HMAC-SHA256 Credential=${this.accessKeyId}/${scope}, SignedHeaders=${signedHeaders}, Signature=${signature}`,
+    };
+  }
+
+  private objectUrl(key: string) {
+    return `${this.endpoint.origin}${this.objectPath(key)}`;
+  }
+
+  async put(key: string, body: Buffer, contentType: string) {
+    assertKey(key);
+    await axios.put(this.objectUrl(key), body, {
+      headers: { ...this.signedHeaders('PUT', key, body), 'Content-Type': contentType },
+      maxBodyLength: Infinity,
+    });
+  }
+
+  async get(key: string) {
+    assertKey(key);
+    const response = await axios.get(this.objectUrl(key), {
+      headers: this.signedHeaders('GET', key),
+      responseType: 'arraybuffer',
+    });
+    return Buffer.from(response.data);
+  }
+
+  async delete(key: string) {
+    assertKey(key);
+    await axios.delete(this.objectUrl(key), {
+      headers: this.signedHeaders('DELETE', key),
+    });
+  }
+
+  // The bucket (or the CDN in front of it) must allow public reads
+  getUrl(key: string) {
+    const publicUrl = process.env.STORAGE_PUBLIC_URL;
+    return publicUrl ? `${publicUrl}/${key}` : this.objectUrl(key);
+  }
+}
+
+let storage: StorageDriver | null = null;
+
+export function getStorage(): StorageDriver {
+  if (!storage) {
+    storage = process.env.STORAGE_DRIVER === 's3' ? new S3Storage() : new LocalStorage();
+  }
+  return storage;
+}
@@ -0,0 +1,296 @@
+// Message template engine shared by campaigns, drips and API sends.
+//
+//   {name}                       variable
+//   {name|friend}                default when the value is empty
+//   {custom.plan}                Contact.metadata custom field
+//   {custom.renews_at:date}      formatting: date, datetime, time, number, currency, upper, lower, capitalize
+//   {#if custom.vip}...{else}...{/if}, {#unless ...}...{/unless}
+//
+// {Hi|Hello} groups whose first option isn't a variable are spintax, resolved
+// before rendering (see message-variation.ts).
+
+export const BUILTIN_VARIABLES = ['name', 'first_name', 'last_name', 'email', 'phone', 'today'];
+
+// Left in place for the sender to fill (email unsubscribe links)
+const PASSTHROUGH_VARIABLES = ['unsubscribe_url'];
+
+const CUSTOM_FIELD_PREFIX = 'custom.';
+
+export const TEMPLATE_FORMATS = ['date', 'datetime', 'time', 'number', 'currency', 'upper', 'lower', 'capitalize'];
+
+const TAG_REGEX = /\{([^{}]+)\}/g;
+const PATH_REGEX = /^[a-zA-Z_][\w]*(\.[\w]+)*$/;
+
+type VariableNode = { type: 'var'; path: string; format?: string; fallback?: string };
+
+type TemplateNode =
+  | { type: 'text'; value: string }
+  | VariableNode
+  | { type: 'if'; path: string; negate: boolean; then: TemplateNode[]; otherwise: TemplateNode[] };
+
+export type TemplateContact = {
+  name?: string | null;
+  email?: string | null;
+  phone?: string | null;
+  timezone?: string | null;
+  metadata?: string | null;
+};
+
+export type RenderOptions = {
+  variables?: Record<string, unknown>; // Extra top-level values, e.g. API per-recipient variables
+  defaults?: Record<string, string>; // Fallbacks used when a template gives none
+  timezone?: string;
+  now?: Date;
+};
+
+export type TemplateValidation = {
+  variables: string[];
+  unknownVariables: string[];
+  errors: string[];
+};
+
+export function isKnownVariable(path: string, extraVariables: string[] = []) {
+  return BUILTIN_VARIABLES.includes(path)
+    || PASSTHROUGH_VARIABLES.includes(path)
+    || extraVariables.includes(path)
+    || (path.startsWith(CUSTOM_FIELD_PREFIX) && path.length > CUSTOM_FIELD_PREFIX.length);
+}
+
+function parseVariable(expression: string): VariableNode | null {
+  const pipe = expression.indexOf('|');
+  const left = (pipe === -1 ? expression : expression.slice(0, pipe)).trim();
+  const fallback = pipe === -1 ? undefined : expression.slice(pipe + 1);
+
+  const colon = left.indexOf(':');
+  const path = (colon === -1 ? left : left.slice(0, colon)).trim();
+  const format = colon === -1 ? undefined : left.slice(colon + 1).trim();
+
+  if (!PATH_REGEX.test(path)) {
+    return null;
+  }
+
+  return { type: 'var', path, format, fallback };
+}
+
+// Builds the node tree; anything that doesn't parse as a tag stays literal text
+function parseTemplate(template: string, errors: string[] = []): TemplateNode[] {
+  const root: TemplateNode[] = [];
+  const stack: Array<{ keyword: string; node: Extract<TemplateNode, { type: 'if' }>; inElse: boolean }> = [];
+  const current = () => {
+    const top = stack[stack.length - 1];
+    if (!top) return root;
+    return top.inElse ? top.node.otherwise : top.node.then;
+  };
+
+  let lastIndex = 0;
+  for (const match of template.matchAll(TAG_REGEX)) {
+    const index = match.index ?? 0;
+    if (index > lastIndex) {
+      current().push({ type: 'text', value: template.slice(lastIndex, index) });
+    }
+    lastIndex = index + match[0].length;
+
+    // "{ like this }" is prose, not a tag
+    if (/^\s/.test(match[1])) {
+      current().push({ type: 'text', value: match[0] });
+      continue;
+    }
+
+    const tag = match[1].trim();
+    const block = tag.match(/^#(if|unless)\s+(.+)$/);
+
+    if (block) {
+      const path = block[2].trim();
+      if (!PATH_REGEX.test(path)) {
+        errors.push(`Invalid condition: {${tag}}`);
+      }
+      const node = { type: 'if' as const, path, negate: block[1] === 'unless', then: [], otherwise: [] };
+      current().push(node);
+      stack.push({ keyword: block[1], node, inElse: false });
+    } else if (tag === 'else') {
+      const top = stack[stack.length - 1];
+      if (!top || top.inElse) {
+        errors.push('Unexpected {else}');
+        current().push({ type: 'text', value: match[0] });
+      } else {
+        top.inElse = true;
+      }
+    } else if (tag === '/if' || tag === '/unless') {
+      const top = stack[stack.length - 1];
+      if (!top || `/${top.keyword}` !== tag) {
+        errors.push(`Unexpected {${tag}}`);
+        current().push({ type: 'text', value: match[0] });
+      } else {
+        stack.pop();
+      }
+    } else {
+      const variable = parseVariable(tag);
+      current().push(variable || { type: 'text', value: match[0] });
+    }
+  }
+
+  if (lastIndex < template.length) {
+    current().push({ type: 'text', value: template.slice(lastIndex) });
+  }
+
+  for (const open of stack) {
+    errors.push(`Missing {/${open.keyword}} for {#${open.keyword} ${open.node.path}}`);
+  }
+
+  return root;
+}
+
+function parseMetadata(metadata?: string | null): Record<string, unknown> {
+  if (!metadata) return {};
+
+  try {
+    const parsed = JSON.parse(metadata);
+    return parsed && typeof parsed === 'object' ? parsed : {};
+  } catch {
+    return {};
+  }
+}
+
+function buildContext(contact: TemplateContact, options: RenderOptions) {
+  const [firstName, ...rest] = (contact.name || '').trim().split(/\s+/);
+
+  return {
+    ...options.variables,
+    name: contact.name,
+    first_name: firstName,
+    last_name: rest.join(' '),
+    email: contact.email,
+    phone: contact.phone,
+    today: options.now || new Date(),
+    custom: parseMetadata(contact.metadata),
+  } as Record<string, unknown>;
+}
+
+function lookup(context: Record<string, unknown>, path: string): unknown {
+  return path.split('.').reduce<unknown>((value, key) => {
+    if (value && typeof value === 'object') {
+      return (value as Record<string, unknown>)[key];
+    }
+    return undefined;
+  }, context);
+}
+
+function isEmpty(value: unknown) {
+  return value === undefined || value === null || value === '' || value === false;
+}
+
+function formatValue(value: unknown, format: string | undefined, timezone: string | undefined): string {
+  const asDate = () => {
+    const date = value instanceof Date ? value : new Date(String(value));
+    return isNaN(date.getTime()) ? null : date;
+  };
+
+  switch (format) {
+    case 'date':
+    case 'datetime':
+    case 'time': {
+      const date = asDate();
+      if (!date) return String(value);
+      const options: Intl.DateTimeFormatOptions = { timeZone: timezone };
+      if (format !== 'time') options.dateStyle = 'medium';
+      if (format !== 'date') options.timeStyle = 'short';
+      return new Intl.DateTimeFormat('en-US', options).format(date);
+    }
+    case 'number':
+    case 'currency': {
+      const number = Number(value);
+      if (isNaN(number)) return String(value);
+      return new Intl.NumberFormat('en-US', format === 'currency' ? { style: 'currency', currency: 'USD' } : {})
+        .format(number);
+    }
+    case 'upper':
+      return String(value).toUpperCase();
+    case 'lower':
+      return String(value).toLowerCase();
+    case 'capitalize':
+      return String(value).replace(/\b\w/g, c => c.toUpperCase());
+    default:
+      return value instanceof Date ? formatValue(value, 'date', timezone) : String(value);
+  }
+}
+
+function renderNodes(nodes: TemplateNode[], context: Record<string, unknown>, options: RenderOptions): string {
+  return nodes.map(node => {
+    switch (node.type) {
+      case 'text':
+        return node.value;
+      case 'if': {
+        const truthy = !isEmpty(lookup(context, node.path));
+        return renderNodes(truthy !== node.negate ? node.then : node.otherwise, context, options);
+      }
+      case 'var': {
+        if (PASSTHROUGH_VARIABLES.includes(node.path)) {
+          return `{${node.path}}`;
+        }
+        const value = lookup(context, node.path);
+        if (isEmpty(value)) {
+          return node.fallback ?? options.defaults?.[node.path] ?? '';
+        }
+        return formatValue(value, node.format, options.timezone);
+      }
+    }
+  }).join('');
+}
+
+export function renderTemplate(template: string, contact: TemplateContact, options: RenderOptions = {}): string {
+  return renderNodes(parseTemplate(template), buildContext(contact, options), {
+    ...options,
+    timezone: options.timezone || contact.timezone || undefined,
+  });
+}
+
+/**
+ * Lists the variables a template uses and flags unknown ones and syntax errors.
+ * Known variables are the built-ins, any `custom.*` field and `extraVariables`.
+ */
+export function validateTemplate(template: string, extraVariables: string[] = []): TemplateValidation {
+  const errors: string[] = [];
+  const nodes = parseTemplate(template, errors);
+  const variables = new Set<string>();
+
+  const visit = (list: TemplateNode[]) => {
+    for (const node of list) {
+      if (node.type === 'var') {
+        // Spintax group, not a variable
+        if (node.fallback !== undefined && !isKnownVariable(node.path, extraVariables)) {
+          continue;
+        }
+        variables.add(node.path);
+        if (node.format && !TEMPLATE_FORMATS.includes(node.format)) {
+          errors.push(`Unknown format "${node.format}" in {${node.path}}`);
+        }
+      } else if (node.type === 'if') {
+        variables.add(node.path);
+        visit(node.then);
+        visit(node.otherwise);
+      }
+    }
+  };
+  visit(nodes);
+
+  const unknownVariables = [...variables].filter(v => !isKnownVariable(v, extraVariables));
+
+  return { variables: [...variables], unknownVariables, errors };
+}
+
+// Throws a single readable error when the template can't be saved
+export function assertValidTemplate(template: string, extraVariables: string[] = []) {
+  const { unknownVariables, errors } = validateTemplate(template, extraVariables);
+
+  if (unknownVariables.length > 0) {
+    const available = [...BUILTIN_VARIABLES, ...extraVariables].map(v => `{${v}}`).join(', ');
+    errors.unshift(
+      `Unknown template variables: ${unknownVariables.map(v => `{${v}}`).join(', ')}. ` +
+      `Available: ${available} or {custom.<field>}`,
+    );
+  }
+
+  if (errors.length > 0) {
+    throw new Error(errors.join('; '));
+  }
+}
@@ -0,0 +1,128 @@
+// Timezone helpers built on Intl so we don't need a tz database dependency
+
+export const DEFAULT_TIMEZONE = 'UTC';
+
+// E.164 country calling code -> representative IANA timezone.
+// Countries spanning several zones map to their most populous one.
+const CALLING_CODE_TIMEZONES: Record<string, string> = {
+  '1': 'America/New_York',
+  '7': 'Europe/Moscow',
+  '20': 'Africa/Cairo',
+  '27': 'Africa/Johannesburg',
+  '30': 'Europe/Athens',
+  '31': 'Europe/Amsterdam',
+  '32': 'Europe/Brussels',
+  '33': 'Europe/Paris',
+  '34': 'Europe/Madrid',
+  '36': 'Europe/Budapest',
+  '39': 'Europe/Rome',
+  '40': 'Europe/Bucharest',
+  '41': 'Europe/Zurich',
+  '43': 'Europe/Vienna',
+  '44': 'Europe/London',
+  '45': 'Europe/Copenhagen',
+  '46': 'Europe/Stockholm',
+  '47': 'Europe/Oslo',
+  '48': 'Europe/Warsaw',
+  '49': 'Europe/Berlin',
+  '51': 'America/Lima',
+  '52': 'America/Mexico_City',
+  '54': 'America/Argentina/Buenos_Aires',
+  '55': 'America/Sao_Paulo',
+  '56': 'America/Santiago',
+  '57': 'America/Bogota',
+  '60': 'Asia/Kuala_Lumpur',
+  '61': 'Australia/Sydney',
+  '62': 'Asia/Jakarta',
+  '63': 'Asia/Manila',
+  '64': 'Pacific/Auckland',
+  '65': 'Asia/Singapore',
+  '66': 'Asia/Bangkok',
+  '81': 'Asia/Tokyo',
+  '82': 'Asia/Seoul',
+  '84': 'Asia/Ho_Chi_Minh',
+  '86': 'Asia/Shanghai',
+  '90': 'Europe/Istanbul',
+  '91': 'Asia/Kolkata',
+  '92': 'Asia/Karachi',
+  '94': 'Asia/Colombo',
+  '98': 'Asia/Tehran',
+  '212': 'Africa/Casablanca',
+  '233': 'Africa/Accra',
+  '234': 'Africa/Lagos',
+  '254': 'Africa/Nairobi',
+  '351': 'Europe/Lisbon',
+  '353': 'Europe/Dublin',
+  '358': 'Europe/Helsinki',
+  '380': 'Europe/Kyiv',
+  '420': 'Europe/Prague',
+  '852': 'Asia/Hong_Kong',
+  '880': 'Asia/Dhaka',
+  '886': 'Asia/Taipei',
+  '961': 'Asia/Beirut',
+  '962': 'Asia/Amman',
+  '965': 'Asia/Kuwait',
+  '966': 'Asia/Riyadh',
+  '971': 'Asia/Dubai',
+  '972': 'Asia/Jerusalem',
+  '974': 'Asia/Qatar',
+  '977': 'Asia/Kathmandu',
+};
+
+export function isValidTimezone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export function inferTimezoneFromPhone(phone?: string | null): string | null {
+  if (!phone) return null;
+
+  const digits = phone.replace(/[^\d]/g, '');
+
+  // Calling codes are 1-3 digits; prefer the longest match
+  for (let length = 3; length >= 1; length--) {
+    const timezone = CALLING_CODE_TIMEZONES[digits.slice(0, length)];
+    if (timezone) {
+      return timezone;
+    }
+  }
+
+  return null;
+}
+
+// Explicit contact timezone wins, then the phone country code, then UTC
+export function resolveContactTimezone(contact: { timezone?: string | null; phone?: string | null }): string {
+  if (contact.timezone && isValidTimezone(contact.timezone)) {
+    return contact.timezone;
+  }
+
+  return inferTimezoneFromPhone(contact.phone) || DEFAULT_TIMEZONE;
+}
+
+// Wall-clock parts of `date` as seen in `timezone`
+export function getZonedParts(date: Date, timezone: string): {
+  weekday: number; // 0 = Sunday
+  hour: number;
+  minute: number;
+} {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: timezone,
+    weekday: 'short',
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+  }).formatToParts(date);
+
+  const get = (type: string) => parts.find(p => p.type === type)?.value || '';
+  const weekdays = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+  return {
+    weekday: weekdays.indexOf(get('weekday')),
+    hour: parseInt(get('hour'), 10),
+    minute: parseInt(get('minute'), 10),
+  };
+}
@@ -0,0 +1,35 @@
+import { signToken, verifyToken } from './crypto';
+
+// Signed unsubscribe / preference links. The contact id alone is guessable,
+// so the link only works with a valid signature.
+
+export type UnsubscribePayload = {
+  contactId: string;
+  messageId?: string; // Attributes the opt-out to the campaign that sent it
+};
+
+export function createUnsubscribeToken(payload: UnsubscribePayload): string {
+  return signToken(JSON.stringify(payload.messageId ? { c: payload.contactId, m: payload.messageId } : { c: payload.contactId }));
+}
+
+export function parseUnsubscribeToken(token: string): UnsubscribePayload | null {
+  const raw = verifyToken(token);
+  if (!raw) {
+    return null;
+  }
+
+  try {
+    const { c, m } = JSON.parse(raw);
+    if (typeof c !== 'string') {
+      return null;
+    }
+    return { contactId: c, messageId: typeof m === 'string' ? m : undefined };
+  } catch {
+    return null;
+  }
+}
+
+// GET shows the preference page, POST is the RFC 8058 one-click unsubscribe
+export function getUnsubscribeUrl(payload: UnsubscribePayload) {
+  return `${process.env.APP_URL}/unsubscribe/${createUnsubscribeToken(payload)}`;
+}
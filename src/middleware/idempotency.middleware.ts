@@ -0,0 +1,137 @@
+import { FastifyRequest, FastifyReply } from 'fastify';
+import { createHash } from 'crypto';
+import { redisConnection } from '../lib/queue';
+
+const IDEMPOTENCY_TTL_SECONDS = 24 * 60 * 60;
+const IN_FLIGHT_TTL_SECONDS = 60;
+const IN_FLIGHT_REFRESH_MS = 20 * 1000;
+const MAX_KEY_LENGTH = 255;
+
+type StoredRequest =
+  | { state: 'processing'; bodyHash: string }
+  | { state: 'done'; bodyHash: string; statusCode: number; payload: string };
+
+function getRedisKey(apiKeyId: string, idempotencyKey: string) {
+  return `idempotency:${apiKeyId}:${idempotencyKey}`;
+}
+
+function hashBody(body: unknown) {
+  return createHash('sha256').update(JSON.stringify(body ?? null)).digest('hex');
+}
+
+// Keeps the in-flight reservation alive while the handler runs; the returned stop
+// waits for a pending refresh so it cannot land after the final write
+function keepReserved(redisKey: string) {
+  let pending: Promise<unknown> = Promise.resolve();
+  const timer = setInterval(() => {
+    pending = redisConnection.expire(redisKey, IN_FLIGHT_TTL_SECONDS).catch(() => undefined);
+  }, IN_FLIGHT_REFRESH_MS);
+
+  return async () => {
+    clearInterval(timer);
+    await pending;
+  };
+}
+
+/**
+ * preHandler: replays the stored response for a repeated Idempotency-Key,
+ * rejects reuse of a key with a different body, and reserves new keys.
+ * Keys are scoped to the API key that sent the request.
+ */
+export async function idempotencyMiddleware(
+  request: FastifyRequest,
+  reply: FastifyReply,
+) {
+  const apiUser = (request as any).apiUser;
+  const idempotencyKey = request.headers['idempotency-key'];
+
+  if (!apiUser?.apiKeyId || typeof idempotencyKey !== 'string' || !idempotencyKey) {
+    return;
+  }
+
+  if (idempotencyKey.length > MAX_KEY_LENGTH) {
+    return reply.code(400).send({
+      success: false,
+      error: `Idempotency-Key must be at most ${MAX_KEY_LENGTH} characters`,
+    });
+  }
+
+  const redisKey = getRedisKey(apiUser.apiKeyId, idempotencyKey);
+  const bodyHash = hashBody(request.body);
+
+  // Reserve the key; only the first request with it gets through
+  const processing: StoredRequest = { state: 'processing', bodyHash };
+  const reserved = await redisConnection.set(redisKey, JSON.stringify(processing), 'EX', IN_FLIGHT_TTL_SECONDS, 'NX');
+
+  if (reserved === 'OK') {
+    const stopRefresh = keepReserved(redisKey);
+    // Also stops when the connection closes without a response
+    reply.raw.once('close', () => void stopRefresh());
+    request.idempotency = { redisKey, bodyHash, stopRefresh };
+    return;
+  }
+
+  const raw = await redisConnection.get(redisKey);
+  const stored: StoredRequest | null = raw ? JSON.parse(raw) : null;
+
+  if (!stored) {
+    // Expired between SET and GET; let the client retry
+    return reply.code(409).send({
+      success: false,
+      error: 'A request with this Idempotency-Key is being processed',
+      code: 'IDEMPOTENCY_IN_PROGRESS',
+    });
+  }
+
+  if (stored.bodyHash !== bodyHash) {
+    return reply.code(409).send({
+      success: false,
+      error: 'Idempotency-Key was already used with a different request body',
+      code: 'IDEMPOTENCY_KEY_REUSED',
+    });
+  }
+
+  if (stored.state === 'processing') {
+    return reply.code(409).send({
+      success: false,
+      error: 'A request with this Idempotency-Key is being processed',
+      code: 'IDEMPOTENCY_IN_PROGRESS',
+    });
+  }
+
+  return reply
+    .code(stored.statusCode)
+    .header('Idempotent-Replayed', 'true')
+    .type('application/json')
+    .send(stored.payload);
+}
+
+// onSend: stores the first response for replays; server errors and rate limits release the key so the client can retry
+export async function idempotencyOnSend(
+  request: FastifyRequest,
+  reply: FastifyReply,
+  payload: unknown,
+) {
+  const idempotency = request.idempotency;
+
+  if (!idempotency) {
+    return payload;
+  }
+
+  await idempotency.stopRefresh();
+
+  if (reply.statusCode >= 500 || reply.statusCode === 429 || typeof payload !== 'string') {
+    await redisConnection.del(idempotency.redisKey);
+    return payload;
+  }
+
+  const done: StoredRequest = {
+    state: 'done',
+    bodyHash: idempotency.bodyHash,
+    statusCode: reply.statusCode,
+    payload,
+  };
+  await redisConnection.set(idempotency.redisKey, JSON.stringify(done), 'EX', IDEMPOTENCY_TTL_SECONDS);
+
+  return payload;
+}
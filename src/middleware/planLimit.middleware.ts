@@ -2,6 +2,14 @@ import { FastifyRequest, FastifyReply } from 'fastify';
 import { prisma } from '../lib/prisma';
 import { getPlanConfig } from '../modules/admin/admin.config';
 
+// Messages the request would create: a batch counts every recipient, anything else one
+function getRequestedMessages(request: FastifyRequest) {
+  const recipients = (request.body as any)?.recipients;
+  return request.url.startsWith('/api/v1/messages/batch') && Array.isArray(recipients)
+    ? recipients.length
+    : 1;
+}
+
 export async function planLimitMiddleware(
   request: FastifyRequest,
   reply: FastifyReply,
@@ -45,13 +53,18 @@ export async function planLimitMiddleware(
     },
   });
 
-  if (messagesToday >= planConfig.dailyQuota) {
+  const requested = getRequestedMessages(request);
+
+  if (messagesToday + requested > planConfig.dailyQuota) {
     return reply.code(402).send({
       success: false,
-      error: 'Plan limit exceeded for daily messages',
+      error: messagesToday >= planConfig.dailyQuota
+        ? 'Plan limit exceeded for daily messages'
+        : `Batch of ${requested} messages exceeds the ${planConfig.dailyQuota - messagesToday} remaining in today's plan limit`,
       code: 'PLAN_LIMIT_EXCEEDED',
       limit: planConfig.dailyQuota,
       used: messagesToday,
+      requested,
       plan: userRecord.plan,
     });
   }
@@ -212,6 +212,15 @@ export const ADMIN_CONFIG = {
     },
   },
 
+  // Estimated provider cost per message (USD), used for campaign previews
+  CHANNEL_PRICING: {
+    WHATSAPP: 0.025, // Marketing template conversation
+    SMS: 0.0079, // Single segment
+    EMAIL: 0.0001,
+    TELEGRAM: 0,
+    VOICE: 0.014, // Per minute
+  },
+
   // System Setting Categories
   SETTING_CATEGORIES: {
     GENERAL: 'general',
@@ -326,6 +335,11 @@ export function getPlanConfig(planKey: string) {
   return ADMIN_CONFIG.PLAN_TEMPLATES[planKey as keyof typeof ADMIN_CONFIG.PLAN_TEMPLATES];
 }
 
+// Helper to get the per-message price of a channel
+export function getChannelPrice(channel: string): number {
+  return ADMIN_CONFIG.CHANNEL_PRICING[channel as keyof typeof ADMIN_CONFIG.CHANNEL_PRICING] ?? 0;
+}
+
 // Helper to get AI provider config
 export function getAIProviderConfig(providerKey: string) {
   return ADMIN_CONFIG.AI_PROVIDERS[providerKey as keyof typeof ADMIN_CONFIG.AI_PROVIDERS];
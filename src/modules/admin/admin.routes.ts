@@ -5,6 +5,7 @@ import { adminAnalyticsService } from './admin-analytics.service';
 import { adminUsersService } from './admin-users.service';
 import { billingService } from './billing.service';
 import { ADMIN_CONFIG } from './admin.config';
+import { getWebhookVerificationFailures } from '../integrations/webhook-verification.service';
 import { Plan } from '@prisma/client';
 
 // Validation schemas
@@ -509,6 +510,21 @@ export async function adminRoutes(fastify: FastifyInstance) {
     return { success: true, ...result };
   });
 
+  // Inbound webhooks rejected by signature verification
+  fastify.get('/webhooks/failures', async (request, reply) => {
+    const { page, limit, tenantId, channel, reason } = request.query as any;
+
+    const result = await getWebhookVerificationFailures({
+      tenantId,
+      channel,
+      reason,
+      page: page ? parseInt(page) : 1,
+      limit: limit ? parseInt(limit) : 50,
+    });
+
+    return { success: true, ...result };
+  });
+
   // ==================== BILLING ====================
 
   // Get subscriptions
@@ -53,6 +53,7 @@ const createDripCampaignSchema = z.object({
     channel: z.enum(['WHATSAPP', 'EMAIL', 'TELEGRAM', 'SMS']),
     template: z.string(),
     subject: z.string().optional(),
+    synonymVariation: z.boolean().optional(),
   })),
   exitTags: z.array(z.string()).default([]),
   maxMessages: z.number().default(10),
@@ -76,6 +77,8 @@ const createLeadFormSchema = z.object({
   logoUrl: z.string().optional(),
   webhookUrl: z.string().optional(),
   redirectUrl: z.string().optional(),
+  consentChannels: z.array(z.enum(['WHATSAPP', 'EMAIL', 'TELEGRAM', 'SMS'])).optional(), // Recorded when `consent` is ticked
+  consentText: z.string().optional(),
 });
 
 const scheduleCallSchema = z.object({
@@ -343,15 +343,22 @@ Respond with only the message template, no extra text.`;
     options?: {
       goal?: 'engagement' | 'conversion' | 'clarity';
       tone?: string;
+      variations?: number; // Return exactly this many paraphrases as a JSON array
     }
   ): Promise<AIResponse> {
+    const instructions = options?.variations
+      ? `Write exactly ${options.variations} paraphrases with the same meaning and length.
+Keep every placeholder in curly braces (e.g. {name}, {unsubscribe_url}) exactly as written.
+Respond with a JSON array of strings only.`
+      : 'Provide 3 variations - one punchy, one detailed, one creative.';
+
     const prompt = `Improve the following message for better ${options?.goal || 'engagement'}:
 
 Original: "${message}"
 
 ${options?.tone ? `Desired tone: ${options.tone}` : ''}
 
-Provide 3 variations - one punchy, one detailed, one creative.`;
+${instructions}`;
 
     return this.generateText(userId, prompt, {
       systemPrompt: SYSTEM_PROMPTS.EMAIL_COPYWRITER,
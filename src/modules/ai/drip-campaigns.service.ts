@@ -1,6 +1,9 @@
 import { prisma } from '../../lib/prisma';
 import { addMessageJob } from '../../lib/queue';
 import { aiService } from './ai.service';
+import { renderTemplate, assertValidTemplate } from '../../lib/template-renderer';
+import { varyMessage, getMessageSeed } from '../../lib/message-variation';
+import { findSuppression } from '../suppressions/suppressions.service';
 import { Channel, DripStatus, DripMessageStatus, DripTrigger } from '@prisma/client';
 
 export interface DripStep {
@@ -9,6 +12,7 @@ export interface DripStep {
   channel: Channel;
   template: string;
   subject?: string; // For email
+  synonymVariation?: boolean; // Swap common words for synonyms per contact
   condition?: {
     type: 'opened' | 'replied' | 'clicked' | 'tag_added';
     value?: string;
@@ -29,6 +33,8 @@ class DripCampaignService {
   // ==================== CRUD OPERATIONS ====================
 
   async create(userId: string, input: CreateDripCampaignInput) {
+    this.validateSteps(input.steps);
+
     return prisma.dripCampaign.create({
       data: {
         userId,
@@ -59,6 +65,7 @@ class DripCampaignService {
 
     const updateData: any = { ...input };
     if (input.steps) {
+      this.validateSteps(input.steps);
       updateData.steps = JSON.stringify(input.steps);
     }
 
@@ -255,8 +262,11 @@ class DripCampaignService {
       
       const scheduledAt = new Date(now.getTime() + cumulativeDelay);
 
-      // Process template variables
-      const content = this.processTemplate(step.template, contact);
+      // Spintax/synonyms are resolved per contact, then template variables
+      const wording = varyMessage(step.template, getMessageSeed(dripId, contactId, String(i)), {
+        synonyms: step.synonymVariation,
+      });
+      const content = this.processTemplate(wording, contact);
 
       await prisma.dripMessage.create({
         data: {
@@ -284,10 +294,20 @@ class DripCampaignService {
   }
 
   private processTemplate(template: string, contact: any): string {
-    return template
-      .replace(/\{name\}/g, contact.name || 'there')
-      .replace(/\{email\}/g, contact.email || '')
-      .replace(/\{phone\}/g, contact.phone || '');
+    return renderTemplate(template, contact, { defaults: { name: 'there', first_name: 'there' } });
+  }
+
+  private validateSteps(steps: DripStep[]) {
+    steps.forEach((step, index) => {
+      try {
+        assertValidTemplate(step.template);
+        if (step.subject) {
+          assertValidTemplate(step.subject);
+        }
+      } catch (error: any) {
+        throw new Error(`Step ${index + 1}: ${error.message}`);
+      }
+    });
   }
 
   // ==================== MESSAGE PROCESSING ====================
@@ -344,6 +364,14 @@ class DripCampaignService {
       throw new Error('Contact has no email');
     }
 
+    if (await findSuppression(contact.tenantId, message.channel, contact)) {
+      await prisma.dripMessage.update({
+        where: { id: message.id },
+        data: { status: DripMessageStatus.SUPPRESSED },
+      });
+      return;
+    }
+
     // Send via appropriate channel
     // This would integrate with your existing message sending logic
     // For now, we'll mark as sent
@@ -2,7 +2,8 @@ import { prisma } from '../../lib/prisma';
 import { aiService } from './ai.service';
 import { leadScoringService } from './lead-scoring.service';
 import { dripCampaignService } from './drip-campaigns.service';
-import { DripTrigger } from '@prisma/client';
+import { recordConsent } from '../contacts/consent.service';
+import { Channel, DripTrigger } from '@prisma/client';
 
 export interface FormField {
   id: string;
@@ -20,6 +21,11 @@ export interface LeadCaptureSubmission {
   [key: string]: any;
 }
 
+// Checkbox values arrive as booleans from JSON clients and strings from plain forms
+function isTruthy(value: unknown) {
+  return value === true || value === 'true' || value === 'on' || value === '1';
+}
+
 class LeadCaptureService {
   // ==================== FORM MANAGEMENT ====================
 
@@ -34,6 +40,8 @@ class LeadCaptureService {
     logoUrl?: string;
     webhookUrl?: string;
     redirectUrl?: string;
+    consentChannels?: Channel[];
+    consentText?: string;
   }) {
     return prisma.leadCaptureForm.create({
       data: {
@@ -48,6 +56,8 @@ class LeadCaptureService {
         logoUrl: data.logoUrl,
         webhookUrl: data.webhookUrl,
         redirectUrl: data.redirectUrl,
+        consentChannels: data.consentChannels || [],
+        consentText: data.consentText,
       },
     });
   }
@@ -63,6 +73,8 @@ class LeadCaptureService {
     logoUrl: string;
     webhookUrl: string;
     redirectUrl: string;
+    consentChannels: Channel[];
+    consentText: string;
   }>) {
     const form = await prisma.leadCaptureForm.findFirst({
       where: { id: formId, userId },
@@ -150,6 +162,8 @@ class LeadCaptureService {
       primaryColor: form.primaryColor,
       logoUrl: form.logoUrl || form.user?.whiteLabel?.logoUrl,
       brandName: form.user?.whiteLabel?.brandName || form.user?.name || 'BeeCastly',
+      // Rendered as an unticked `consent` checkbox when set
+      consentText: form.consentChannels.length > 0 ? form.consentText : null,
     };
   }
 
@@ -179,6 +193,18 @@ class LeadCaptureService {
     // Create or update contact
     const contact = await this.upsertContact(form.userId, submission);
 
+    // Consent only counts when the visitor ticked the form's consent checkbox
+    if (form.consentChannels.length > 0 && isTruthy(submission.consent)) {
+      for (const channel of form.consentChannels) {
+        await recordConsent(contact, channel, {
+          source: 'lead_form',
+          ipAddress: metadata?.ip,
+          userAgent: metadata?.userAgent,
+          proofText: form.consentText || undefined,
+        });
+      }
+    }
+
     // Update form stats
     await prisma.leadCaptureForm.update({
       where: { id: formId },
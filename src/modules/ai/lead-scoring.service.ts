@@ -1,6 +1,7 @@
 import { prisma } from '../../lib/prisma';
 import { AI_CONFIG } from './ai.config';
 import { LeadTier, Channel } from '@prisma/client';
+import { setContactStatus } from '../contacts/contact-status.service';
 
 export interface LeadScoreFactors {
   engagement: {
@@ -35,7 +36,7 @@ class LeadScoringService {
 
   async calculateScore(userId: string, contactId: string): Promise<LeadScoreResult> {
     // Get contact activity data
-    const [contact, messages, conversations] = await Promise.all([
+    const [contact, messages, conversations, emailClicks] = await Promise.all([
       prisma.contact.findFirst({
         where: { id: contactId, userId },
         include: { leadScore: true },
@@ -47,6 +48,9 @@ class LeadScoringService {
         where: { contactId },
         include: { messages: true },
       }),
+      prisma.messageEvent.count({
+        where: { type: 'CLICK', message: { contactId, channel: Channel.EMAIL } },
+      }),
     ]);
 
     if (!contact) {
@@ -54,7 +58,7 @@ class LeadScoringService {
     }
 
     // Calculate engagement metrics
-    const factors = this.extractFactors(contact, messages, conversations);
+    const factors = this.extractFactors(contact, messages, conversations, emailClicks);
     
     // Calculate scores
     const engagementScore = this.calculateEngagementScore(factors.engagement);
@@ -103,7 +107,8 @@ class LeadScoringService {
   private extractFactors(
     contact: any,
     messages: any[],
-    conversations: any[]
+    conversations: any[],
+    emailClicks: number
   ): LeadScoreFactors {
     const now = new Date();
     const lastActivity = contact.lastContactAt || contact.createdAt;
@@ -111,8 +116,8 @@ class LeadScoringService {
 
     return {
       engagement: {
-        emailOpens: messages.filter(m => m.channel === Channel.EMAIL && m.status === 'DELIVERED').length,
-        emailClicks: 0, // Would need tracking
+        emailOpens: messages.filter(m => m.channel === Channel.EMAIL && m.openedAt).length,
+        emailClicks,
         messageReplies: messages.filter(m => m.replyReceived).length,
         websiteVisits: 0, // Would need web tracking
         formSubmissions: contact.source ? 1 : 0,
@@ -264,13 +269,15 @@ class LeadScoringService {
       update: data,
     });
 
-    // Update contact status to match tier
-    await prisma.contact.update({
-      where: { id: contactId },
-      data: {
-        status: score.tier === 'HOT' ? 'ACTIVE' : score.tier === 'WARM' ? 'ACTIVE' : 'COLD',
-      },
-    });
+    // Update contact status to match tier; opt-outs and bounces are never overridden
+    const contact = await prisma.contact.findUnique({ where: { id: contactId } });
+    if (contact && contact.status !== 'UNSUBSCRIBED' && contact.status !== 'BOUNCED') {
+      await setContactStatus(
+        contact,
+        score.tier === 'HOT' ? 'ACTIVE' : score.tier === 'WARM' ? 'ACTIVE' : 'COLD',
+        { source: 'lead_scoring', detail: `${score.tier} (${score.overallScore})` },
+      );
+    }
   }
 
   // ==================== BULK OPERATIONS ====================
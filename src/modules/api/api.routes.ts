@@ -1,8 +1,17 @@
 import { FastifyInstance } from 'fastify';
 import { getApiKeys, createApiKey, revokeApiKey, createApiKeySchema } from './api-keys.service';
-import { sendSingleMessage } from '../messages/messages.service';
+import {
+  sendSingleMessage,
+  getMessage,
+  listMessages,
+  createMessageBatch,
+  getMessageBatch,
+  sendBatchSchema,
+} from '../messages/messages.service';
 import { z } from 'zod';
 import { Channel } from '@prisma/client';
+import { uploadMedia } from '../media/media.service';
+import { idempotencyMiddleware, idempotencyOnSend } from '../../middleware/idempotency.middleware';
 
 // Validation schema for single message
 const sendMessageSchema = z.object({
@@ -10,6 +19,8 @@ const sendMessageSchema = z.object({
   to: z.string(),
   content: z.string().min(1),
   subject: z.string().optional(),
+  variables: z.record(z.union([z.string(), z.number(), z.boolean()])).optional(),
+  mediaId: z.string().optional(), // From POST /api/v1/media
 });
 
 // Dashboard stats
@@ -30,7 +41,7 @@ async function getDashboardStats(userId: string) {
     messagesFailed,
   ] = await Promise.all([
     prisma.contact.count({ where: { tenantId: user.tenantId, userId } }),
-    prisma.campaign.count({ where: { tenantId: user.tenantId, userId } }),
+    prisma.campaign.count({ where: { tenantId: user.tenantId, userId, isApi: false } }),
     prisma.message.count({
       where: { tenantId: user.tenantId, campaign: { userId } },
     }),
@@ -127,7 +138,11 @@ export async function apiRoutes(fastify: FastifyInstance) {
   });
 
   // Public API endpoint - Send single message (requires API key)
-  fastify.post('/messages/send', async (request, reply) => {
+  // Supports an optional Idempotency-Key header so clients can retry safely
+  fastify.post('/messages/send', {
+    preHandler: idempotencyMiddleware,
+    onSend: idempotencyOnSend,
+  }, async (request, reply) => {
     const userId = (request as any).apiUser?.userId;
     const permissions = (request as any).apiUser?.permissions || [];
     
@@ -152,15 +167,146 @@ export async function apiRoutes(fastify: FastifyInstance) {
         to: data.to,
         content: data.content,
         subject: data.subject,
+        variables: data.variables,
+        mediaId: data.mediaId,
       });
 
       return reply.send({
         success: result.success,
+        messageId: result.messageId,
+        status: result.status,
         externalId: result.externalId,
         error: result.error,
       });
     } catch (error: any) {
+      if (error.statusCode === 429) {
+        return reply
+          .code(429)
+          .header('Retry-After', Math.ceil(error.retryAfterMs / 1000))
+          .send({ success: false, error: error.message, code: 'RATE_LIMITED' });
+      }
       return reply.code(400).send({ success: false, error: error.message });
     }
   });
+
+  // Public API endpoint - Upload an attachment for later sends (requires API key)
+  fastify.post('/media', async (request, reply) => {
+    const userId = (request as any).apiUser?.userId;
+
+    if (!userId) {
+      return reply.code(401).send({ success: false, error: 'Unauthorized' });
+    }
+
+    try {
+      const data = await request.file();
+
+      if (!data) {
+        return reply.code(400).send({ success: false, error: 'No file provided' });
+      }
+
+      const media = await uploadMedia(userId, {
+        filename: data.filename,
+        mimeType: data.mimetype,
+        buffer: await data.toBuffer(),
+      });
+
+      return reply.code(201).send({ success: true, media });
+    } catch (error: any) {
+      return reply.code(400).send({ success: false, error: error.message });
+    }
+  });
+
+  // Public API endpoint - Send to many recipients, paced by the campaign worker (requires API key)
+  fastify.post('/messages/batch', {
+    preHandler: idempotencyMiddleware,
+    onSend: idempotencyOnSend,
+  }, async (request, reply) => {
+    const userId = (request as any).apiUser?.userId;
+    const permissions = (request as any).apiUser?.permissions || [];
+
+    if (!userId) {
+      return reply.code(401).send({ success: false, error: 'Unauthorized' });
+    }
+
+    try {
+      const data = sendBatchSchema.parse(request.body);
+
+      const channel = data.channel.toLowerCase() as string;
+      if (!permissions.includes(`send:${channel}`) && !permissions.includes('send:all')) {
+        return reply.code(403).send({
+          success: false,
+          error: `No permission to send ${channel} messages`,
+        });
+      }
+
+      const result = await createMessageBatch(userId, data);
+      return reply.code(202).send({ success: true, ...result });
+    } catch (error: any) {
+      return reply.code(400).send({ success: false, error: error.message });
+    }
+  });
+
+  // Public API endpoint - Batch progress and per-recipient results (requires API key)
+  fastify.get('/messages/batch/:id', async (request, reply) => {
+    const userId = (request as any).apiUser?.userId;
+
+    if (!userId) {
+      return reply.code(401).send({ success: false, error: 'Unauthorized' });
+    }
+
+    const { id } = request.params as { id: string };
+    const { page, limit } = request.query as { page?: string; limit?: string };
+
+    try {
+      const result = await getMessageBatch(userId, id, {
+        page: page ? parseInt(page) : 1,
+        limit: limit ? Math.min(parseInt(limit), 500) : 100,
+      });
+      return reply.send({ success: true, ...result });
+    } catch (error: any) {
+      return reply.code(404).send({ success: false, error: error.message });
+    }
+  });
+
+  // Public API endpoint - List sent messages (requires API key)
+  fastify.get('/messages', async (request, reply) => {
+    const userId = (request as any).apiUser?.userId;
+    
+    if (!userId) {
+      return reply.code(401).send({ success: false, error: 'Unauthorized' });
+    }
+
+    const { campaignId, status, channel, page, limit } = request.query as any;
+
+    try {
+      const result = await listMessages(userId, {
+        campaignId,
+        status,
+        channel,
+        page: page ? parseInt(page) : 1,
+        limit: limit ? Math.min(parseInt(limit), 100) : 50,
+      });
+      return reply.send({ success: true, ...result });
+    } catch (error: any) {
+      return reply.code(400).send({ success: false, error: error.message });
+    }
+  });
+
+  // Public API endpoint - Message status (requires API key)
+  fastify.get('/messages/:id', async (request, reply) => {
+    const userId = (request as any).apiUser?.userId;
+    
+    if (!userId) {
+      return reply.code(401).send({ success: false, error: 'Unauthorized' });
+    }
+
+    const { id } = request.params as { id: string };
+
+    try {
+      const message = await getMessage(userId, id);
+      return reply.send({ success: true, message });
+    } catch (error: any) {
+      return reply.code(404).send({ success: false, error: error.message });
+    }
+  });
 }
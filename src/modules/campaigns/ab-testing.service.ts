@@ -0,0 +1,187 @@
+import { prisma } from '../../lib/prisma';
+import { addCampaignJob } from '../../lib/queue';
+import { AbWinnerMetric, CampaignVariant, MessageStatus } from '@prisma/client';
+import { checkCampaignCompletion } from './campaign-report.service';
+import { varyMessage, getMessageSeed } from '../../lib/message-variation';
+
+export type VariantStats = {
+  variantId: string;
+  name: string;
+  total: number;
+  sent: number;
+  delivered: number;
+  replies: number;
+  clicks: number;
+  deliveryRate: number;
+  replyRate: number;
+  clickRate: number;
+  isWinner: boolean;
+};
+
+const SENT_STATUSES: MessageStatus[] = ['SENT', 'DELIVERED', 'READ'];
+const DELIVERED_STATUSES: MessageStatus[] = ['DELIVERED', 'READ'];
+
+function shuffle<T>(items: T[]): T[] {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+}
+
+/**
+ * Picks the contacts that receive messages now and the variant each one gets.
+ * With a test slice only that share of the (shuffled) audience is returned;
+ * the rest is messaged with the winner after evaluation.
+ */
+export function assignVariants<T extends { id: string }>(
+  contacts: T[],
+  variants: CampaignVariant[],
+  testPercent: number | null,
+): Array<{ contact: T; variant: CampaignVariant | null }> {
+  if (variants.length === 0) {
+    return contacts.map(contact => ({ contact, variant: null }));
+  }
+
+  const shuffled = shuffle(contacts);
+  const recipients = testPercent
+    ? shuffled.slice(0, Math.ceil((shuffled.length * testPercent) / 100))
+    : shuffled;
+
+  // Split the recipients into contiguous runs sized by weight
+  const totalWeight = variants.reduce((sum, v) => sum + v.weight, 0);
+
+  return recipients.map((contact, index) => {
+    const position = (index / recipients.length) * totalWeight;
+    let cumulative = 0;
+    const variant = variants.find(v => (cumulative += v.weight) > position) || variants[variants.length - 1];
+    return { contact, variant };
+  });
+}
+
+export function computeVariantStats(
+  variants: CampaignVariant[],
+  messages: Array<{ variantId: string | null; status: MessageStatus; replyReceived: boolean; clickedAt: Date | null }>,
+  winnerVariantId: string | null,
+): VariantStats[] {
+  return variants.map(variant => {
+    const variantMessages = messages.filter(m => m.variantId === variant.id);
+    const sent = variantMessages.filter(m => SENT_STATUSES.includes(m.status)).length;
+    const delivered = variantMessages.filter(m => DELIVERED_STATUSES.includes(m.status)).length;
+    const replies = variantMessages.filter(m => m.replyReceived).length;
+    const clicks = variantMessages.filter(m => m.clickedAt).length;
+
+    return {
+      variantId: variant.id,
+      name: variant.name,
+      total: variantMessages.length,
+      sent,
+      delivered,
+      replies,
+      clicks,
+      deliveryRate: sent > 0 ? delivered / sent : 0,
+      replyRate: sent > 0 ? replies / sent : 0,
+      clickRate: sent > 0 ? clicks / sent : 0,
+      isWinner: variant.id === winnerVariantId,
+    };
+  });
+}
+
+function pickWinner(stats: VariantStats[], metric: AbWinnerMetric): VariantStats | undefined {
+  const score = (s: VariantStats) => {
+    switch (metric) {
+      case 'DELIVERY_RATE':
+        return s.deliveryRate;
+      case 'CLICK_RATE':
+        return s.clickRate;
+      case 'REPLY_RATE':
+      default:
+        return s.replyRate;
+    }
+  };
+
+  // Ties go to the variant that reached more people
+  return [...stats].sort((a, b) => score(b) - score(a) || b.sent - a.sent)[0];
+}
+
+// Runs after the evaluation period: picks the winner and rolls it out to the rest of the audience
+export async function evaluateAbTest(campaignId: string) {
+  const campaign = await prisma.campaign.findUnique({
+    where: { id: campaignId },
+    include: { variants: true },
+  });
+
+  if (!campaign || campaign.variants.length === 0 || campaign.winnerVariantId) {
+    return { rolledOut: 0 };
+  }
+
+  if (campaign.status !== 'RUNNING' && campaign.status !== 'PAUSED') {
+    console.log(`[A/B Test] Campaign ${campaignId} is ${campaign.status}, skipping evaluation`);
+    return { rolledOut: 0 };
+  }
+
+  const messages = await prisma.message.findMany({
+    where: { campaignId },
+    select: { contactId: true, variantId: true, status: true, replyReceived: true, clickedAt: true },
+  });
+
+  const stats = computeVariantStats(campaign.variants, messages, null);
+  const winner = pickWinner(stats, campaign.abWinnerMetric);
+
+  if (!winner) {
+    return { rolledOut: 0 };
+  }
+
+  const winnerVariant = campaign.variants.find(v => v.id === winner.variantId)!;
+
+  await prisma.campaign.update({
+    where: { id: campaignId },
+    data: { winnerVariantId: winnerVariant.id },
+  });
+
+  console.log(`[A/B Test] Campaign ${campaignId} winner: variant ${winnerVariant.name}`);
+
+  // Whole audience was split between variants, nothing left to roll out
+  if (!campaign.abTestPercent) {
+    await checkCampaignCompletion(campaignId);
+    return { winnerVariantId: winnerVariant.id, rolledOut: 0 };
+  }
+
+  const { buildAudienceWhere } = await import('./campaigns.service');
+  const alreadyMessaged = new Set(messages.map(m => m.contactId));
+
+  const contacts = await prisma.contact.findMany({
+    where: buildAudienceWhere(campaign),
+    select: { id: true },
+  });
+  const remainder = contacts.filter(c => !alreadyMessaged.has(c.id));
+
+  if (remainder.length > 0) {
+    await prisma.message.createMany({
+      data: remainder.map(contact => ({
+        tenantId: campaign.tenantId,
+        campaignId,
+        contactId: contact.id,
+        channel: campaign.channel,
+        content: varyMessage(winnerVariant.template, getMessageSeed(campaignId, contact.id), {
+          synonyms: campaign.synonymVariation,
+        }),
+        variantId: winnerVariant.id,
+        status: 'PENDING' as const,
+      })),
+    });
+
+    if (campaign.status === 'RUNNING') {
+      await addCampaignJob(
+        { campaignId, userId: campaign.userId },
+        0,
+        `${campaignId}-rollout-${Date.now()}`,
+      );
+    }
+  } else {
+    await checkCampaignCompletion(campaignId);
+  }
+
+  return { winnerVariantId: winnerVariant.id, rolledOut: remainder.length };
+}
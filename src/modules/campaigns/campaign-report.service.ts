@@ -0,0 +1,207 @@
+import { prisma } from '../../lib/prisma';
+import { decrypt } from '../../lib/crypto';
+import { escapeHtml } from '../../lib/html';
+import { sendEmail, getActiveIntegration } from '../messages/messages.service';
+import { Campaign, CampaignReport } from '@prisma/client';
+
+export const UNSUBSCRIBE_EVENT = 'contact_unsubscribed';
+
+const IN_FLIGHT_STATUSES = ['PENDING', 'QUEUED'] as const;
+
+/**
+ * Called whenever messages of a campaign settle. Once nothing is pending or queued
+ * the campaign (or the current run of a recurring campaign) is closed, a summary is
+ * persisted and the owner is notified. Safe to call concurrently: the status
+ * transition is conditional, so only one caller writes the report.
+ */
+export async function checkCampaignCompletion(campaignId: string) {
+  const campaign = await prisma.campaign.findUnique({
+    where: { id: campaignId },
+    include: { _count: { select: { variants: true } } },
+  });
+
+  if (!campaign || campaign.status !== 'RUNNING') {
+    return null;
+  }
+
+  // The implicit API campaign collects sends forever
+  if (campaign.isApi && !campaign.isBatch) {
+    return null;
+  }
+
+  // Winner still has to be picked (and rolled out when there is a test slice);
+  // evaluateAbTest checks completion again once it has run
+  if (campaign._count.variants > 0 && !campaign.winnerVariantId) {
+    return null;
+  }
+
+  const inFlight = await prisma.message.count({
+    where: { campaignId, status: { in: [...IN_FLIGHT_STATUSES] } },
+  });
+
+  if (inFlight > 0) {
+    return null;
+  }
+
+  // Requeued messages can reopen older runs next to the current one
+  if (campaign.scheduleType === 'RECURRING') {
+    const runs = await prisma.campaignRun.findMany({
+      where: { campaignId, completedAt: null },
+      orderBy: { runNumber: 'asc' },
+    });
+
+    let report: CampaignReport | null = null;
+    for (const run of runs) {
+      report = (await completeCampaignRun(campaign, run.id)) || report;
+    }
+    return report;
+  }
+
+  const { count } = await prisma.campaign.updateMany({
+    where: { id: campaignId, status: 'RUNNING' },
+    data: { status: 'COMPLETED', completedAt: new Date() },
+  });
+
+  if (count === 0) {
+    return null;
+  }
+
+  // A requeue can complete the campaign again; keep only the latest summary
+  await prisma.campaignReport.deleteMany({ where: { campaignId, runId: null } });
+  const report = await createCampaignReport(campaign);
+
+  console.log(`[Campaign Report] Campaign ${campaignId} completed`);
+
+  // API batches complete through hidden campaigns; the owner isn't emailed about those
+  if (!campaign.isApi && !campaign.isBatch) {
+    await notifyCampaignOwner(campaign, report);
+  }
+
+  return report;
+}
+
+// Closes one run of a recurring campaign; the campaign itself keeps running
+export async function completeCampaignRun(campaign: Campaign, runId: string) {
+  const { count } = await prisma.campaignRun.updateMany({
+    where: { id: runId, completedAt: null },
+    data: { completedAt: new Date() },
+  });
+
+  if (count === 0) {
+    return null;
+  }
+
+  const run = await prisma.campaignRun.findUniqueOrThrow({ where: { id: runId } });
+  const report = await createCampaignReport(campaign, run);
+
+  console.log(`[Campaign Report] Campaign ${campaign.id} run #${run.runNumber} completed`);
+  await notifyCampaignOwner(campaign, report, run.runNumber);
+
+  return report;
+}
+
+async function createCampaignReport(
+  campaign: Campaign,
+  run?: { id: string; startedAt: Date },
+): Promise<CampaignReport> {
+  const messageWhere: any = { campaignId: campaign.id };
+  const eventWhere: any = { tenantId: campaign.tenantId, campaignId: campaign.id };
+
+  if (run) {
+    messageWhere.runId = run.id;
+    eventWhere.createdAt = { gte: run.startedAt };
+  }
+
+  const [byStatus, failedByReason, replies, unsubscribes, revenue] = await Promise.all([
+    prisma.message.groupBy({
+      by: ['status'],
+      where: messageWhere,
+      _count: true,
+    }),
+    prisma.message.groupBy({
+      by: ['errorType'],
+      where: { ...messageWhere, status: 'FAILED' },
+      _count: true,
+    }),
+    prisma.message.count({ where: { ...messageWhere, replyReceived: true } }),
+    prisma.analyticsEvent.count({ where: { ...eventWhere, eventType: UNSUBSCRIBE_EVENT } }),
+    prisma.analyticsEvent.aggregate({ where: eventWhere, _sum: { revenue: true } }),
+  ]);
+
+  const count = (status: string) => byStatus.find(row => row.status === status)?._count || 0;
+
+  return prisma.campaignReport.create({
+    data: {
+      campaignId: campaign.id,
+      runId: run?.id,
+      total: byStatus.reduce((sum, row) => sum + row._count, 0),
+      sent: count('SENT') + count('DELIVERED') + count('READ'),
+      delivered: count('DELIVERED') + count('READ'),
+      read: count('READ'),
+      failed: count('FAILED'),
+      suppressed: count('SUPPRESSED'),
+      failedByReason: JSON.stringify(failedByReason.reduce((acc, row) => {
+        acc[row.errorType || 'UNKNOWN'] = row._count;
+        return acc;
+      }, {} as Record<string, number>)),
+      replies,
+      unsubscribes,
+      revenue: revenue._sum.revenue || 0,
+    },
+  });
+}
+
+export function serializeCampaignReport(report: CampaignReport) {
+  return {
+    ...report,
+    failedByReason: JSON.parse(report.failedByReason),
+    revenue: Number(report.revenue),
+  };
+}
+
+// Emails the summary through the owner's own email integration when there is one
+async function notifyCampaignOwner(campaign: Campaign, report: CampaignReport, runNumber?: number) {
+  try {
+    const owner = await prisma.user.findUnique({ where: { id: campaign.userId } });
+    const integration = await getActiveIntegration(campaign.tenantId, campaign.userId, 'EMAIL');
+
+    if (!owner?.email || !integration) {
+      console.log(`[Campaign Report] No email integration for owner of campaign ${campaign.id}, skipping notification`);
+      return;
+    }
+
+    const title = runNumber ? `${campaign.name} (run #${runNumber})` : campaign.name;
+    const failedByReason = Object.entries(JSON.parse(report.failedByReason) as Record<string, number>)
+      .map(([reason, count]) => `${reason}: ${count}`)
+      .join(', ');
+
+    const html = [
+      `<p>Your campaign <strong>${escapeHtml(title)}</strong> has finished.</p>`,
+      '<ul>',
+      `<li>Messages: ${report.total}</li>`,
+      `<li>Sent: ${report.sent}</li>`,
+      `<li>Delivered: ${report.delivered}</li>`,
+      `<li>Read: ${report.read}</li>`,
+      `<li>Failed: ${report.failed}${failedByReason ? ` (${failedByReason})` : ''}</li>`,
+      `<li>Suppressed: ${report.suppressed}</li>`,
+      `<li>Replies: ${report.replies}</li>`,
+      `<li>Unsubscribes: ${report.unsubscribes}</li>`,
+      `<li>Revenue attributed: ${Number(report.revenue).toFixed(2)}</li>`,
+      '</ul>',
+      `<p><a href="${process.env.APP_URL}/campaigns/${campaign.id}">View campaign</a></p>`,
+    ].join('\n');
+
+    const result = await sendEmail(
+      owner.email,
+      `Campaign completed: ${title}`,
+      html,
+      JSON.parse(decrypt(integration.config)),
+    );
+
+    if (!result.success) {
+      console.error(`[Campaign Report] Failed to notify owner of campaign ${campaign.id}:`, result.error);
+    }
+  } catch (error: any) {
+    console.error(`[Campaign Report] Failed to notify owner of campaign ${campaign.id}:`, error.message);
+  }
+}
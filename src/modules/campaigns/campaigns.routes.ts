@@ -9,8 +9,14 @@ import {
   pauseCampaign,
   resumeCampaign,
   getCampaignStats,
+  getCampaignRuns,
+  getCampaignReport,
+  previewCampaign,
+  getFailedMessages,
+  requeueFailedMessages,
   createCampaignSchema,
   updateCampaignSchema,
+  requeueMessagesSchema,
 } from './campaigns.service';
 
 export async function campaignsRoutes(fastify: FastifyInstance) {
@@ -181,4 +187,107 @@ export async function campaignsRoutes(fastify: FastifyInstance) {
       return reply.code(400).send({ success: false, error: error?.message || 'Unknown error' });
     }
   });
+
+  // Dry run: audience breakdown, rendered samples and send estimate
+  fastify.get('/:id/preview', async (request, reply) => {
+    const userId = (request as any).user?.id;
+    
+    if (!userId) {
+      return reply.code(401).send({ success: false, error: 'Unauthorized' });
+    }
+
+    const { id } = request.params as { id: string };
+    const { sampleSize } = request.query as any;
+
+    try {
+      const preview = await previewCampaign(userId, id, {
+        sampleSize: sampleSize ? parseInt(sampleSize) : undefined,
+      });
+      return reply.send({ success: true, preview });
+    } catch (error: any) {
+      return reply.code(400).send({ success: false, error: error?.message || 'Unknown error' });
+    }
+  });
+
+  // Completion summary report
+  fastify.get('/:id/report', async (request, reply) => {
+    const userId = (request as any).user?.id;
+    
+    if (!userId) {
+      return reply.code(401).send({ success: false, error: 'Unauthorized' });
+    }
+
+    const { id } = request.params as { id: string };
+
+    try {
+      const report = await getCampaignReport(userId, id);
+      return reply.send({ success: true, report });
+    } catch (error: any) {
+      return reply.code(400).send({ success: false, error: error?.message || 'Unknown error' });
+    }
+  });
+
+  // Runs of a recurring campaign with per-run stats
+  fastify.get('/:id/runs', async (request, reply) => {
+    const userId = (request as any).user?.id;
+    
+    if (!userId) {
+      return reply.code(401).send({ success: false, error: 'Unauthorized' });
+    }
+
+    const { id } = request.params as { id: string };
+    const { page, limit } = request.query as any;
+
+    try {
+      const result = await getCampaignRuns(userId, id, {
+        page: page ? parseInt(page) : 1,
+        limit: limit ? parseInt(limit) : 20,
+      });
+      return reply.send({ ...result, success: true });
+    } catch (error: any) {
+      return reply.code(400).send({ success: false, error: error?.message || 'Unknown error' });
+    }
+  });
+
+  // Failed messages with error classification and dead-letter details
+  fastify.get('/:id/failed', async (request, reply) => {
+    const userId = (request as any).user?.id;
+    
+    if (!userId) {
+      return reply.code(401).send({ success: false, error: 'Unauthorized' });
+    }
+
+    const { id } = request.params as { id: string };
+    const { errorType, page, limit } = request.query as any;
+
+    try {
+      const result = await getFailedMessages(userId, id, {
+        errorType,
+        page: page ? parseInt(page) : 1,
+        limit: limit ? parseInt(limit) : 50,
+      });
+      return reply.send({ ...result, success: true });
+    } catch (error: any) {
+      return reply.code(400).send({ success: false, error: error?.message || 'Unknown error' });
+    }
+  });
+
+  // Bulk requeue failed messages
+  fastify.post('/:id/requeue', async (request, reply) => {
+    const userId = (request as any).user?.id;
+    
+    if (!userId) {
+      return reply.code(401).send({ success: false, error: 'Unauthorized' });
+    }
+
+    const { id } = request.params as { id: string };
+
+    try {
+      const data = requeueMessagesSchema.parse(request.body || {});
+      const result = await requeueFailedMessages(userId, id, data);
+      return reply.send({ ...result, success: true });
+    } catch (error: any) {
+      return reply.code(400).send({ success: false, error: error?.message || 'Unknown error' });
+    }
+  });
 }
@@ -1,7 +1,35 @@
 import { prisma } from '../../lib/prisma';
-import { addCampaignJob } from '../../lib/queue';
+import { addCampaignJob, addAbEvaluationJob, deadLetterQueue } from '../../lib/queue';
+import { TIME_OF_DAY_REGEX, getCampaignSendWindow, hasSendWindow } from '../../lib/send-window';
+import { getChannelPrice } from '../admin/admin.config';
+import { renderMessageContent } from '../messages/messages.service';
+import { assertValidTemplate, validateTemplate } from '../../lib/template-renderer';
+import { varyMessage, getMessageSeed } from '../../lib/message-variation';
 import { z } from 'zod';
 import { Channel, ScheduleType, CampaignStatus } from '@prisma/client';
+import { assignVariants, computeVariantStats } from './ab-testing.service';
+import { serializeCampaignReport } from './campaign-report.service';
+import {
+  recurrenceSchema,
+  buildCronPattern,
+  scheduleRecurringCampaign,
+  unscheduleRecurringCampaign,
+  getCampaignRuns as getRecurringRuns,
+} from './recurring.service';
+import {
+  whatsappTemplateParamsSchema,
+  validateWhatsAppTemplateParams,
+  WhatsAppTemplateParams,
+} from '../integrations/whatsapp-templates.service';
+import { assertMediaForChannels } from '../media/media.service';
+import { getSuppressedContactIds } from '../suppressions/suppressions.service';
+
+export const campaignVariantSchema = z.object({
+  name: z.string().min(1),
+  template: z.string().min(1),
+  subject: z.string().optional(),
+  weight: z.number().int().min(1).default(1),
+});
 
 export const createCampaignSchema = z.object({
   name: z.string().min(1),
@@ -9,16 +37,45 @@ export const createCampaignSchema = z.object({
   template: z.string().min(1),
   subject: z.string().optional(),
   tagFilter: z.array(z.string()).default([]),
-  scheduleType: z.enum(['IMMEDIATE', 'SCHEDULED']).default('IMMEDIATE'),
+  scheduleType: z.enum(['IMMEDIATE', 'SCHEDULED', 'RECURRING']).default('IMMEDIATE'),
   scheduledAt: z.string().datetime().optional(),
+  recurrence: recurrenceSchema.optional(), // Required for RECURRING
   dailyLimit: z.number().int().min(1).default(50),
   minDelay: z.number().int().min(1).default(30),
   maxDelay: z.number().int().min(1).default(120),
+  contactCooldown: z.number().int().min(0).default(300),
+  sendWindowStart: z.string().regex(TIME_OF_DAY_REGEX, 'Expected HH:mm').optional(),
+  sendWindowEnd: z.string().regex(TIME_OF_DAY_REGEX, 'Expected HH:mm').optional(),
+  sendDays: z.array(z.number().int().min(0).max(6)).default([]),
+  variants: z.array(campaignVariantSchema).optional(),
+  abTestPercent: z.number().int().min(1).max(99).optional(),
+  abEvaluationHours: z.number().int().min(1).default(24),
+  abWinnerMetric: z.enum(['DELIVERY_RATE', 'REPLY_RATE', 'CLICK_RATE']).default('REPLY_RATE'),
+  fallbackChannels: z.array(z.enum(['WHATSAPP', 'EMAIL', 'TELEGRAM', 'SMS'])).default([]),
+  synonymVariation: z.boolean().default(false),
+  aiParaphraseCount: z.number().int().min(0).max(10).default(0),
+  whatsappTemplateId: z.string().nullable().optional(), // Approved template sent instead of `template` text
+  whatsappTemplateParams: whatsappTemplateParamsSchema.optional(),
+  mediaId: z.string().nullable().optional(), // Uploaded attachment, see /media
+  shortenLinks: z.boolean().default(false),
+  topic: z.string().trim().min(1).max(50).toLowerCase().nullable().optional(), // Preference page opt-out group
 });
 
-export const updateCampaignSchema = createCampaignSchema.partial();
+export const updateCampaignSchema = createCampaignSchema.partial().extend({
+  // null removes the sending window
+  sendWindowStart: z.string().regex(TIME_OF_DAY_REGEX, 'Expected HH:mm').nullable().optional(),
+  sendWindowEnd: z.string().regex(TIME_OF_DAY_REGEX, 'Expected HH:mm').nullable().optional(),
+});
+
+const providerErrorTypes = ['PERMANENT', 'TRANSIENT', 'RATE_LIMITED', 'AUTH_CONFIG'] as const;
+
+export const requeueMessagesSchema = z.object({
+  errorTypes: z.array(z.enum(providerErrorTypes)).optional(),
+  messageIds: z.array(z.string()).optional(),
+});
 
 export type CreateCampaignInput = z.infer<typeof createCampaignSchema>;
+export type UpdateCampaignInput = z.infer<typeof updateCampaignSchema>;
 
 export async function getCampaigns(userId: string, options: {
   status?: string;
@@ -33,7 +90,7 @@ export async function getCampaigns(userId: string, options: {
 
   const { status, channel, page = 1, limit = 20 } = options;
 
-  const where: any = { tenantId: user.tenantId, userId };
+  const where: any = { tenantId: user.tenantId, userId, isApi: false };
 
   if (status) {
     where.status = status;
@@ -90,8 +147,13 @@ export async function getCampaign(userId: string, campaignId: string) {
       messages: {
         select: {
           status: true,
+          channel: true,
+          variantId: true,
+          replyReceived: true,
+          clickedAt: true,
         },
       },
+      variants: true,
     },
   });
 
@@ -99,17 +161,35 @@ export async function getCampaign(userId: string, campaignId: string) {
     throw new Error('Campaign not found');
   }
 
+  const sentMessages = campaign.messages
+    .filter(m => m.status === 'SENT' || m.status === 'DELIVERED' || m.status === 'READ');
+  const clicked = campaign.messages.filter(m => m.clickedAt).length;
+
   const messageStats = {
     pending: campaign.messages.filter(m => m.status === 'PENDING').length,
     queued: campaign.messages.filter(m => m.status === 'QUEUED').length,
     sent: campaign.messages.filter(m => m.status === 'SENT').length,
     delivered: campaign.messages.filter(m => m.status === 'DELIVERED').length,
     failed: campaign.messages.filter(m => m.status === 'FAILED').length,
+    suppressed: campaign.messages.filter(m => m.status === 'SUPPRESSED').length,
+    // Recipients who clicked at least one tracked link (email tracking or short links)
+    clicked,
+    clickThroughRate: sentMessages.length > 0 ? clicked / sentMessages.length : 0,
+    // Channel that finally carried each sent message (differs from the campaign channel after a fallback)
+    sentByChannel: sentMessages.reduce((acc, m) => {
+      acc[m.channel] = (acc[m.channel] || 0) + 1;
+      return acc;
+    }, {} as Record<string, number>),
   };
 
+  const variantStats = campaign.variants.length > 0
+    ? computeVariantStats(campaign.variants, campaign.messages, campaign.winnerVariantId)
+    : undefined;
+
   return {
     ...campaign,
     messageStats,
+    variantStats,
     messageCount: campaign._count.messages,
     _count: undefined,
     messages: undefined,
@@ -121,28 +201,38 @@ export async function createCampaign(userId: string, data: CreateCampaignInput)
   if (!user) {
     throw new Error('User not found');
   }
-  // Validate template variables
-  const variables = extractVariables(data.template);
-  const validVariables = ['name', 'email', 'phone'];
-  
-  for (const v of variables) {
-    if (!validVariables.includes(v)) {
-      throw new Error(`Invalid template variable: {${v}}. Valid variables: {name}, {email}, {phone}`);
-    }
+  validateCampaignTemplate(data.channel, data.template, data.subject);
+  for (const variant of data.variants || []) {
+    validateCampaignTemplate(data.channel, variant.template, variant.subject || data.subject);
   }
 
-  // Validate email subject for email channel
-  if (data.channel === 'EMAIL' && !data.subject) {
-    throw new Error('Subject is required for email campaigns');
+  if (Boolean(data.sendWindowStart) !== Boolean(data.sendWindowEnd)) {
+    throw new Error('Both sendWindowStart and sendWindowEnd are required for a sending window');
   }
 
-  // Check for unsubscribe variable in email
-  if (data.channel === 'EMAIL') {
-    if (!data.template.includes('{{unsubscribe_url}}') && !data.template.includes('{unsubscribe_url}')) {
-      throw new Error('Email template must contain {{unsubscribe_url}} variable');
-    }
+  if (data.abTestPercent && (data.variants?.length || 0) < 2) {
+    throw new Error('A/B testing requires at least two variants');
+  }
+
+  validateFallbackChannels(data.channel, data.fallbackChannels);
+
+  if (data.mediaId) {
+    await assertMediaForChannels(user.tenantId, data.mediaId, [data.channel, ...data.fallbackChannels]);
+  }
+
+  if (data.aiParaphraseCount > 0 && data.variants?.length) {
+    throw new Error('AI rewrites cannot be combined with A/B variants');
   }
 
+  const recurrence = getRecurrenceFields(data.scheduleType, data.recurrence, data.variants?.length || 0);
+  const whatsappTemplate = await getWhatsAppTemplateFields(
+    user.tenantId,
+    data.channel,
+    data.whatsappTemplateId,
+    data.whatsappTemplateParams,
+    data.variants?.length || 0,
+  );
+
   const campaign = await prisma.campaign.create({
     data: {
       tenantId: user.tenantId,
@@ -154,17 +244,34 @@ export async function createCampaign(userId: string, data: CreateCampaignInput)
       tagFilter: data.tagFilter,
       scheduleType: data.scheduleType,
       scheduledAt: data.scheduledAt ? new Date(data.scheduledAt) : null,
+      ...recurrence,
+      ...whatsappTemplate,
       dailyLimit: data.dailyLimit,
       minDelay: data.minDelay,
       maxDelay: data.maxDelay,
+      contactCooldown: data.contactCooldown,
+      sendWindowStart: data.sendWindowStart,
+      sendWindowEnd: data.sendWindowEnd,
+      sendDays: data.sendDays,
+      abTestPercent: data.abTestPercent,
+      abEvaluationHours: data.abEvaluationHours,
+      abWinnerMetric: data.abWinnerMetric,
+      fallbackChannels: data.fallbackChannels,
+      synonymVariation: data.synonymVariation,
+      aiParaphraseCount: data.aiParaphraseCount,
+      mediaId: data.mediaId,
+      shortenLinks: data.shortenLinks,
+      topic: data.topic,
       status: data.scheduleType === 'SCHEDULED' ? 'SCHEDULED' : 'DRAFT',
+      variants: data.variants ? { create: data.variants } : undefined,
     },
+    include: { variants: true },
   });
 
   return campaign;
 }
 
-export async function updateCampaign(userId: string, campaignId: string, data: Partial<CreateCampaignInput>) {
+export async function updateCampaign(userId: string, campaignId: string, data: UpdateCampaignInput) {
   const user = await prisma.user.findUnique({ where: { id: userId } });
   if (!user) {
     throw new Error('User not found');
@@ -182,15 +289,80 @@ export async function updateCampaign(userId: string, campaignId: string, data: P
     throw new Error('Cannot update a running campaign');
   }
 
-  const updateData: any = { ...data };
+  const sendWindowStart = data.sendWindowStart !== undefined ? data.sendWindowStart : campaign.sendWindowStart;
+  const sendWindowEnd = data.sendWindowEnd !== undefined ? data.sendWindowEnd : campaign.sendWindowEnd;
+  if (Boolean(sendWindowStart) !== Boolean(sendWindowEnd)) {
+    throw new Error('Both sendWindowStart and sendWindowEnd are required for a sending window');
+  }
+
+  if (data.channel || data.fallbackChannels) {
+    validateFallbackChannels(data.channel || campaign.channel, data.fallbackChannels || campaign.fallbackChannels);
+  }
+
+  const mediaId = data.mediaId !== undefined ? data.mediaId : campaign.mediaId;
+  if (mediaId && (data.mediaId || data.channel || data.fallbackChannels)) {
+    const channels = [data.channel || campaign.channel, ...(data.fallbackChannels || campaign.fallbackChannels)];
+    await assertMediaForChannels(user.tenantId, mediaId, channels);
+  }
+
+  if (data.aiParaphraseCount !== undefined || data.variants) {
+    const aiParaphraseCount = data.aiParaphraseCount ?? campaign.aiParaphraseCount;
+    const hasVariants = data.variants
+      ? data.variants.length > 0
+      : (await prisma.campaignVariant.count({ where: { campaignId } })) > 0;
+    if (aiParaphraseCount > 0 && hasVariants) {
+      throw new Error('AI rewrites cannot be combined with A/B variants');
+    }
+  }
+
+  const subject = data.subject ?? campaign.subject ?? undefined;
+  if (data.template || data.subject || data.channel) {
+    validateCampaignTemplate(data.channel || campaign.channel, data.template ?? campaign.template, subject);
+  }
+  for (const variant of data.variants || []) {
+    validateCampaignTemplate(data.channel || campaign.channel, variant.template, variant.subject || subject);
+  }
+
+  const { variants, recurrence, whatsappTemplateId, whatsappTemplateParams, ...fields } = data;
+  const updateData: any = { ...fields };
+
+  if (whatsappTemplateId !== undefined || whatsappTemplateParams || data.channel || variants) {
+    const templateId = whatsappTemplateId !== undefined ? whatsappTemplateId : campaign.whatsappTemplateId;
+    const params = whatsappTemplateParams
+      || (campaign.whatsappTemplateParams ? JSON.parse(campaign.whatsappTemplateParams) : undefined);
+    const variantCount = variants ? variants.length : await prisma.campaignVariant.count({ where: { campaignId } });
+    Object.assign(
+      updateData,
+      await getWhatsAppTemplateFields(user.tenantId, data.channel || campaign.channel, templateId, params, variantCount),
+    );
+  }
   
   if (data.scheduledAt) {
     updateData.scheduledAt = new Date(data.scheduledAt);
   }
 
+  // Keep the stored schedule unless the type or rule changes
+  const scheduleType = data.scheduleType || campaign.scheduleType;
+  if (data.scheduleType || recurrence) {
+    const variantCount = variants ? variants.length : await prisma.campaignVariant.count({ where: { campaignId } });
+    const keepSchedule = scheduleType === 'RECURRING' && !recurrence && campaign.recurrenceCron;
+    if (!keepSchedule) {
+      Object.assign(updateData, getRecurrenceFields(scheduleType, recurrence, variantCount));
+    }
+  } else if (scheduleType === 'RECURRING' && variants?.length) {
+    throw new Error('A/B testing is not supported for recurring campaigns');
+  }
+
+  // Variants are replaced as a whole
+  if (variants) {
+    updateData.variants = { deleteMany: {}, create: variants };
+    updateData.winnerVariantId = null;
+  }
+
   return prisma.campaign.update({
     where: { id: campaignId },
     data: updateData,
+    include: { variants: true },
   });
 }
 
@@ -212,6 +384,10 @@ export async function deleteCampaign(userId: string, campaignId: string) {
     throw new Error('Cannot delete a running campaign');
   }
 
+  if (campaign.scheduleType === 'RECURRING') {
+    await unscheduleRecurringCampaign(campaignId);
+  }
+
   await prisma.campaign.delete({
     where: { id: campaignId },
   });
@@ -229,6 +405,7 @@ export async function startCampaign(userId: string, campaignId: string) {
     where: { id: campaignId, userId, tenantId: user.tenantId },
     include: {
       user: true,
+      variants: true,
     },
   });
 
@@ -244,31 +421,36 @@ export async function startCampaign(userId: string, campaignId: string) {
     throw new Error('Campaign is already completed');
   }
 
-  // Get target contacts
-  const where: any = { tenantId: user.tenantId, userId, status: 'ACTIVE' };
-  
-  if (campaign.tagFilter.length > 0) {
-    where.tags = { hasSome: campaign.tagFilter };
+  // The attachment has to fit every channel in the fallback chain
+  if (campaign.mediaId) {
+    await assertMediaForChannels(campaign.tenantId, campaign.mediaId, [campaign.channel, ...campaign.fallbackChannels]);
   }
 
-  // Validate channel-specific contact fields
-  if (campaign.channel === 'WHATSAPP' || campaign.channel === 'SMS') {
-    where.phone = { not: null };
-  } else if (campaign.channel === 'EMAIL') {
-    where.email = { not: null };
-  } else if (campaign.channel === 'TELEGRAM') {
-    where.telegramId = { not: null };
+  // Recurring campaigns only register their schedule; each run resolves the audience itself
+  if (campaign.scheduleType === 'RECURRING') {
+    return startRecurringCampaign(campaign);
   }
 
-  const contacts = await prisma.contact.findMany({
+  // Get target contacts
+  const where = buildAudienceWhere(campaign);
+
+  const audience = await prisma.contact.findMany({
     where,
-    select: { id: true },
+    select: { id: true, phone: true, email: true, telegramId: true },
   });
 
-  if (contacts.length === 0) {
+  if (audience.length === 0) {
     throw new Error('No contacts found matching the criteria');
   }
 
+  // Organization suppression list applies across duplicate contact records
+  const suppressedIds = await getSuppressedContactIds(campaign.tenantId, campaign.channel, audience);
+  const contacts = audience.filter(contact => !suppressedIds.has(contact.id));
+
+  if (contacts.length === 0) {
+    throw new Error('All matching contacts are on the suppression list');
+  }
+
   // Check integration
   const integration = await prisma.integration.findFirst({
     where: {
@@ -283,6 +465,11 @@ export async function startCampaign(userId: string, campaignId: string) {
     throw new Error(`No active ${campaign.channel.toLowerCase()} integration found. Please configure it in settings.`);
   }
 
+  const paraphrases = await refreshParaphrases(campaign);
+
+  // With a test slice only part of the audience is messaged until a winner is picked
+  const recipients = assignVariants(contacts, campaign.variants, campaign.abTestPercent);
+
   // Create messages for all contacts
   await prisma.$transaction(async (tx) => {
     // Delete existing pending/queued messages
@@ -295,11 +482,19 @@ export async function startCampaign(userId: string, campaignId: string) {
 
     // Create new messages
     await tx.message.createMany({
-      data: contacts.map(contact => ({
+      data: recipients.map(({ contact, variant }) => ({
+        tenantId: user.tenantId,
         campaignId,
         contactId: contact.id,
         channel: campaign.channel,
-        content: campaign.template,
+        // Wording is resolved per recipient now so every message can be audited
+        content: variant
+          ? varyMessage(variant.template, getMessageSeed(campaignId, contact.id), { synonyms: campaign.synonymVariation })
+          : varyMessage(campaign.template, getMessageSeed(campaignId, contact.id), {
+            synonyms: campaign.synonymVariation,
+            paraphrases,
+          }),
+        variantId: variant?.id,
         status: 'PENDING',
       })),
     });
@@ -310,6 +505,8 @@ export async function startCampaign(userId: string, campaignId: string) {
       data: { 
         status: 'RUNNING',
         sentCount: 0,
+        winnerVariantId: null,
+        completedAt: null,
       },
     });
   });
@@ -321,10 +518,16 @@ export async function startCampaign(userId: string, campaignId: string) {
 
   await addCampaignJob({ campaignId, userId }, delay);
 
+  if (campaign.variants.length > 0) {
+    await addAbEvaluationJob({ campaignId, userId }, delay + campaign.abEvaluationHours * 60 * 60 * 1000);
+  }
+
   return { 
     success: true, 
-    message: `Campaign started with ${contacts.length} contacts`,
+    message: `Campaign started with ${recipients.length} of ${contacts.length} contacts`,
     totalContacts: contacts.length,
+    queuedContacts: recipients.length,
+    suppressedContacts: suppressedIds.size,
   };
 }
 
@@ -351,6 +554,10 @@ export async function pauseCampaign(userId: string, campaignId: string) {
     data: { status: 'PAUSED' },
   });
 
+  if (campaign.scheduleType === 'RECURRING') {
+    await unscheduleRecurringCampaign(campaignId);
+  }
+
   return { success: true, message: 'Campaign paused' };
 }
 
@@ -372,13 +579,18 @@ export async function resumeCampaign(userId: string, campaignId: string) {
     throw new Error('Campaign is not paused');
   }
 
-  await prisma.campaign.update({
+  const resumed = await prisma.campaign.update({
     where: { id: campaignId },
     data: { status: 'RUNNING' },
   });
 
   await addCampaignJob({ campaignId, userId });
 
+  if (resumed.scheduleType === 'RECURRING') {
+    const { nextRunAt } = await scheduleRecurringCampaign(resumed);
+    return { success: true, message: 'Campaign resumed', nextRunAt };
+  }
+
   return { success: true, message: 'Campaign resumed' };
 }
 
@@ -387,12 +599,500 @@ export async function getCampaignStats(userId: string, campaignId: string) {
   return campaign.messageStats;
 }
 
-// Helper function to extract variables from template
-function extractVariables(template: string): string[] {
-  const matches = template.match(/\{([^}]+)\}/g);
-  if (!matches) return [];
+// Dry run of startCampaign: who would be messaged, what they'd get, how long and how much
+export async function previewCampaign(userId: string, campaignId: string, options: { sampleSize?: number } = {}) {
+  const user = await prisma.user.findUnique({ where: { id: userId } });
+  if (!user) {
+    throw new Error('User not found');
+  }
+
+  const campaign = await prisma.campaign.findFirst({
+    where: { id: campaignId, userId, tenantId: user.tenantId },
+    include: { variants: true },
+  });
+
+  if (!campaign) {
+    throw new Error('Campaign not found');
+  }
+
+  const sampleSize = Math.min(Math.max(options.sampleSize || 5, 1), 20);
+  const targetWhere = buildTargetWhere(campaign);
+  const audienceWhere = buildAudienceWhere(campaign);
+  const addressField = getChannelAddressField(campaign.channel);
+
+  const optedOutWhere = {
+    ...targetWhere,
+    status: 'ACTIVE',
+    ...(addressField ? { [addressField]: { not: null } } : {}),
+    OR: audienceWhere.NOT,
+  };
+
+  const reachableWhere = {
+    ...targetWhere,
+    status: 'ACTIVE',
+    ...(addressField ? { [addressField]: { not: null } } : {}),
+    NOT: audienceWhere.NOT,
+  };
+
+  const [matched, unsubscribed, bounced, otherStatus, missingAddress, optedOut, reachable, audience, sample] = await Promise.all([
+    prisma.contact.count({ where: targetWhere }),
+    prisma.contact.count({ where: { ...targetWhere, status: 'UNSUBSCRIBED' } }),
+    prisma.contact.count({ where: { ...targetWhere, status: 'BOUNCED' } }),
+    prisma.contact.count({ where: { ...targetWhere, status: { notIn: ['ACTIVE', 'UNSUBSCRIBED', 'BOUNCED'] } } }),
+    addressField
+      ? prisma.contact.count({ where: { ...targetWhere, status: 'ACTIVE', [addressField]: null } })
+      : Promise.resolve(0),
+    prisma.contact.count({ where: optedOutWhere }),
+    prisma.contact.count({ where: reachableWhere }),
+    prisma.contact.findMany({ where: audienceWhere, select: { id: true, phone: true, email: true, telegramId: true } }),
+    prisma.contact.findMany({ where: audienceWhere, take: sampleSize }),
+  ]);
+
+  const suppressedIds = await getSuppressedContactIds(campaign.tenantId, campaign.channel, audience);
+  const eligible = audience.length - suppressedIds.size;
+
+  const excluded: Record<string, number> = {
+    unsubscribed,
+    bounced, // Bounced addresses are never messaged
+    inactiveStatus: otherStatus,
+    optedOut, // Channel or topic turned off on the preference page
+    missingConsent: reachable - audience.length, // Pending, revoked or (when required) no consent
+    suppressed: suppressedIds.size, // Organization-wide suppression list
+  };
+  if (addressField) {
+    excluded[`missing_${addressField}`] = missingAddress;
+  }
+
+  // Variants are shown round-robin; the real split is weighted and shuffled
+  const samples = sample.filter(contact => !suppressedIds.has(contact.id)).map((contact, index) => {
+    const variant = campaign.variants.length > 0 ? campaign.variants[index % campaign.variants.length] : null;
+    const subject = variant?.subject || campaign.subject;
+
+    return {
+      contactId: contact.id,
+      name: contact.name,
+      to: addressField ? contact[addressField] : null,
+      variant: variant?.name,
+      subject: subject ? renderMessageContent(subject, contact) : undefined,
+      content: renderMessageContent(
+        varyMessage(variant ? variant.template : campaign.template, getMessageSeed(campaign.id, contact.id), {
+          synonyms: campaign.synonymVariation,
+          paraphrases: variant ? [] : campaign.paraphrases,
+        }),
+        contact,
+      ),
+    };
+  });
+
+  // With a test slice only part of the audience is messaged before the winner rollout
+  const initialRecipients = campaign.variants.length > 0 && campaign.abTestPercent
+    ? Math.ceil((eligible * campaign.abTestPercent) / 100)
+    : eligible;
+
+  const averageDelay = (campaign.minDelay + campaign.maxDelay) / 2;
+  const days = Math.ceil(eligible / campaign.dailyLimit);
+  const lastDayMessages = eligible - Math.max(0, days - 1) * campaign.dailyLimit;
+  const estimatedDurationSeconds = eligible > 0
+    ? Math.max(0, days - 1) * 24 * 60 * 60 + Math.round(lastDayMessages * averageDelay)
+    : 0;
+
+  const pricePerMessage = getChannelPrice(campaign.channel);
+
+  return {
+    audience: {
+      matched,
+      eligible,
+      initialRecipients,
+      excluded,
+    },
+    samples,
+    estimate: {
+      days,
+      durationSeconds: estimatedDurationSeconds,
+      // Sending windows only ever stretch this
+      sendWindowApplies: hasSendWindow(getCampaignSendWindow(campaign)),
+      pricePerMessage,
+      cost: Math.round(eligible * pricePerMessage * 10000) / 10000,
+      currency: 'USD',
+    },
+  };
+}
+
+export async function getCampaignRuns(userId: string, campaignId: string, options: {
+  page?: number;
+  limit?: number;
+}) {
+  const campaign = await getCampaign(userId, campaignId);
+
+  if (campaign.scheduleType !== 'RECURRING') {
+    throw new Error('Campaign is not recurring');
+  }
+
+  return getRecurringRuns(campaign.id, options);
+}
+
+// Summary written when the campaign completed
+export async function getCampaignReport(userId: string, campaignId: string) {
+  const campaign = await getCampaign(userId, campaignId);
+
+  const report = await prisma.campaignReport.findFirst({
+    where: { campaignId: campaign.id, runId: null },
+  });
+
+  if (!report) {
+    throw new Error('Campaign has not completed yet');
+  }
+
+  return serializeCampaignReport(report);
+}
+
+export async function getFailedMessages(userId: string, campaignId: string, options: {
+  errorType?: string;
+  page?: number;
+  limit?: number;
+}) {
+  const campaign = await getCampaign(userId, campaignId);
+  const { errorType, page = 1, limit = 50 } = options;
+
+  const where: any = { campaignId: campaign.id, tenantId: campaign.tenantId, status: 'FAILED' };
+  if (errorType) {
+    where.errorType = errorType;
+  }
+
+  const [messages, total, byErrorType] = await Promise.all([
+    prisma.message.findMany({
+      where,
+      skip: (page - 1) * limit,
+      take: limit,
+      orderBy: { failedAt: 'desc' },
+      include: {
+        contact: { select: { id: true, name: true, phone: true, email: true, telegramId: true } },
+        attempts: { orderBy: { createdAt: 'asc' } },
+      },
+    }),
+    prisma.message.count({ where }),
+    prisma.message.groupBy({
+      by: ['errorType'],
+      where: { campaignId: campaign.id, tenantId: campaign.tenantId, status: 'FAILED' },
+      _count: true,
+    }),
+  ]);
+
+  // Attach the dead-letter entry (if any) so callers can see why retries stopped
+  const withDeadLetter = await Promise.all(messages.map(async message => {
+    const job = await deadLetterQueue.getJob(message.id);
+    return {
+      ...message,
+      deadLetter: job ? { attemptsMade: job.data.attemptsMade, failedAt: job.data.failedAt, error: job.data.error } : null,
+    };
+  }));
+
+  return {
+    messages: withDeadLetter,
+    byErrorType: byErrorType.reduce((acc, row) => {
+      acc[row.errorType || 'UNKNOWN'] = row._count;
+      return acc;
+    }, {} as Record<string, number>),
+    pagination: {
+      page,
+      limit,
+      total,
+      totalPages: Math.ceil(total / limit),
+    },
+  };
+}
+
+export async function requeueFailedMessages(
+  userId: string,
+  campaignId: string,
+  data: z.infer<typeof requeueMessagesSchema>
+) {
+  const campaign = await getCampaign(userId, campaignId);
+
+  if (campaign.status === 'DRAFT' || campaign.status === 'SCHEDULED') {
+    throw new Error('Campaign has not been started');
+  }
+
+  const where: any = { campaignId: campaign.id, tenantId: campaign.tenantId, status: 'FAILED' };
+  if (data.errorTypes?.length) {
+    where.errorType = { in: data.errorTypes };
+  }
+  if (data.messageIds?.length) {
+    where.id = { in: data.messageIds };
+  }
+
+  const messages = await prisma.message.findMany({ where, select: { id: true, runId: true } });
+  if (messages.length === 0) {
+    return { success: true, requeued: 0 };
+  }
+
+  // The stored reports no longer match; they are written again once the requeued messages settle
+  const runIds = [...new Set(messages.map(m => m.runId).filter((id): id is string => !!id))];
+  if (campaign.status === 'COMPLETED') {
+    await prisma.campaignReport.deleteMany({ where: { campaignId: campaign.id, runId: null } });
+  }
+  if (runIds.length > 0) {
+    await prisma.$transaction([
+      prisma.campaignReport.deleteMany({ where: { runId: { in: runIds } } }),
+      prisma.campaignRun.updateMany({ where: { id: { in: runIds } }, data: { completedAt: null } }),
+    ]);
+  }
+
+  // Back to PENDING on the primary channel so the fallback chain starts over
+  await prisma.message.updateMany({
+    where: { id: { in: messages.map(m => m.id) } },
+    data: {
+      status: 'PENDING',
+      channel: campaign.channel,
+      errorMessage: null,
+      errorType: null,
+      failedAt: null,
+    },
+  });
+
+  await Promise.all(messages.map(m => deadLetterQueue.remove(m.id)));
+
+  // Paused campaigns pick the messages up when resumed
+  if (campaign.status !== 'PAUSED') {
+    await prisma.campaign.update({
+      where: { id: campaign.id },
+      data: { status: 'RUNNING', completedAt: null },
+    });
+
+    await addCampaignJob({ campaignId: campaign.id, userId }, 0, `${campaign.id}-requeue-${Date.now()}`);
+  }
+
+  return { success: true, requeued: messages.length };
+}
+
+async function startRecurringCampaign(campaign: {
+  id: string;
+  tenantId: string;
+  userId: string;
+  channel: Channel;
+  template: string;
+  aiParaphraseCount: number;
+  recurrenceCron: string | null;
+  recurrenceTimezone: string | null;
+}) {
+  const integration = await prisma.integration.findFirst({
+    where: {
+      tenantId: campaign.tenantId,
+      userId: campaign.userId,
+      channel: campaign.channel,
+      isActive: true,
+    },
+  });
+
+  if (!integration) {
+    throw new Error(`No active ${campaign.channel.toLowerCase()} integration found. Please configure it in settings.`);
+  }
+
+  await refreshParaphrases(campaign);
+
+  await prisma.campaign.update({
+    where: { id: campaign.id },
+    data: { status: 'RUNNING', sentCount: 0 },
+  });
+
+  const { nextRunAt } = await scheduleRecurringCampaign(campaign);
+
+  return {
+    success: true,
+    message: `Recurring campaign scheduled, next run at ${nextRunAt.toISOString()}`,
+    nextRunAt,
+  };
+}
+
+// Regenerates the AI rewrites on every start so they follow template edits
+async function refreshParaphrases(campaign: {
+  id: string;
+  userId: string;
+  channel: Channel;
+  template: string;
+  aiParaphraseCount: number;
+}): Promise<string[]> {
+  if (campaign.aiParaphraseCount <= 0) {
+    return [];
+  }
+
+  const paraphrases = await generateParaphrases(campaign);
+
+  await prisma.campaign.update({
+    where: { id: campaign.id },
+    data: { paraphrases },
+  });
+
+  return paraphrases;
+}
+
+// Asks the AI for rewrites and keeps only those that use exactly the template's variables
+async function generateParaphrases(campaign: {
+  userId: string;
+  channel: Channel;
+  template: string;
+  aiParaphraseCount: number;
+}): Promise<string[]> {
+  const { aiService } = await import('../ai/ai.service');
+  const expected = validateTemplate(campaign.template).variables.sort().join(',');
+
+  try {
+    const response = await aiService.improveMessage(campaign.userId, campaign.template, {
+      goal: 'engagement',
+      variations: campaign.aiParaphraseCount,
+    });
+
+    const json = response.content.slice(response.content.indexOf('['), response.content.lastIndexOf(']') + 1);
+    const candidates: unknown[] = JSON.parse(json);
+
+    return candidates
+      .filter((text): text is string => typeof text === 'string' && text.trim().length > 0)
+      .filter(text => {
+        const result = validateTemplate(text);
+        return result.errors.length === 0
+          && result.unknownVariables.length === 0
+          && result.variables.sort().join(',') === expected;
+      })
+      .slice(0, campaign.aiParaphraseCount);
+  } catch (error: any) {
+    // Rewrites are optional; fall back to the original template
+    console.error('[Campaigns] Failed to generate AI rewrites:', error.message);
+    return [];
+  }
+}
+
+function getRecurrenceFields(
+  scheduleType: string,
+  recurrence: z.infer<typeof recurrenceSchema> | undefined,
+  variantCount: number,
+) {
+  if (scheduleType !== 'RECURRING') {
+    return { recurrenceCron: null, recurrenceTimezone: null };
+  }
+
+  if (!recurrence) {
+    throw new Error('recurrence is required for recurring campaigns');
+  }
+
+  if (variantCount > 0) {
+    throw new Error('A/B testing is not supported for recurring campaigns');
+  }
+
+  return {
+    recurrenceCron: buildCronPattern(recurrence),
+    recurrenceTimezone: recurrence.timezone,
+  };
+}
+
+async function getWhatsAppTemplateFields(
+  tenantId: string,
+  channel: string,
+  templateId: string | null | undefined,
+  params: WhatsAppTemplateParams | undefined,
+  variantCount: number,
+) {
+  if (!templateId) {
+    return { whatsappTemplateId: null, whatsappTemplateParams: null };
+  }
+
+  if (channel !== 'WHATSAPP') {
+    throw new Error('WhatsApp templates can only be used on WhatsApp campaigns');
+  }
+
+  if (variantCount > 0) {
+    throw new Error('A/B testing is not supported for WhatsApp template campaigns');
+  }
+
+  const resolved = whatsappTemplateParamsSchema.parse(params || {});
+  await validateWhatsAppTemplateParams(tenantId, templateId, resolved);
+
+  return { whatsappTemplateId: templateId, whatsappTemplateParams: JSON.stringify(resolved) };
+}
+
+type AudienceCampaign = {
+  tenantId: string;
+  userId: string;
+  channel: Channel;
+  tagFilter: string[];
+  topic?: string | null;
+};
+
+// Contact field a channel sends to
+function getChannelAddressField(channel: Channel): 'phone' | 'email' | 'telegramId' | null {
+  if (channel === 'WHATSAPP' || channel === 'SMS') return 'phone';
+  if (channel === 'EMAIL') return 'email';
+  if (channel === 'TELEGRAM') return 'telegramId';
+  return null;
+}
+
+// Tag-matched contacts before status and channel filtering
+function buildTargetWhere(campaign: AudienceCampaign) {
+  const where: any = { tenantId: campaign.tenantId, userId: campaign.userId };
   
-  return matches
-    .map(m => m.slice(1, -1)) // Remove { and }
-    .filter((v, i, arr) => arr.indexOf(v) === i); // Unique
+  if (campaign.tagFilter.length > 0) {
+    where.tags = { hasSome: campaign.tagFilter };
+  }
+
+  return where;
+}
+
+// Audience query shared by campaign start, A/B rollout and previews
+export function buildAudienceWhere(campaign: AudienceCampaign) {
+  const where: any = { ...buildTargetWhere(campaign), status: 'ACTIVE' };
+
+  // Validate channel-specific contact fields
+  const addressField = getChannelAddressField(campaign.channel);
+  if (addressField) {
+    where[addressField] = { not: null };
+  }
+
+  // Preference page opt-outs
+  where.NOT = [
+    { optedOutChannels: { has: campaign.channel } },
+    ...(campaign.topic ? [{ optedOutTopics: { has: campaign.topic } }] : []),
+  ];
+
+  // Consent: pending double opt-in and revoked channels are never messaged;
+  // organizations that require consent also skip contacts without a record
+  where.AND = [
+    { consents: { none: { channel: campaign.channel, status: { in: ['PENDING', 'REVOKED'] } } } },
+    {
+      OR: [
+        { tenant: { consentRequired: false } },
+        { consents: { some: { channel: campaign.channel, status: 'GRANTED' } } },
+      ],
+    },
+  ];
+
+  return where;
+}
+
+function validateFallbackChannels(channel: string, fallbackChannels: string[]) {
+  if (fallbackChannels.includes(channel)) {
+    throw new Error('Fallback channels must not include the campaign channel');
+  }
+
+  if (new Set(fallbackChannels).size !== fallbackChannels.length) {
+    throw new Error('Fallback channels must be unique');
+  }
+}
+
+function validateCampaignTemplate(channel: string, template: string, subject?: string) {
+  // Validate template variables
+  assertValidTemplate(template);
+  if (subject) {
+    assertValidTemplate(subject);
+  }
+
+  // Validate email subject for email channel
+  if (channel === 'EMAIL' && !subject) {
+    throw new Error('Subject is required for email campaigns');
+  }
+
+  // Check for unsubscribe variable in email
+  if (channel === 'EMAIL') {
+    if (!template.includes('{{unsubscribe_url}}') && !template.includes('{unsubscribe_url}')) {
+      throw new Error('Email template must contain {{unsubscribe_url}} variable');
+    }
+  }
 }
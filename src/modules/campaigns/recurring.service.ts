@@ -0,0 +1,201 @@
+import { prisma } from '../../lib/prisma';
+import { addCampaignJob, upsertRecurringCampaignJob, removeRecurringCampaignJob } from '../../lib/queue';
+import { TIME_OF_DAY_REGEX } from '../../lib/send-window';
+import { DEFAULT_TIMEZONE, isValidTimezone } from '../../lib/timezone';
+import { z } from 'zod';
+import { completeCampaignRun, serializeCampaignReport } from './campaign-report.service';
+import { varyMessage, getMessageSeed } from '../../lib/message-variation';
+
+export const recurrenceSchema = z.object({
+  frequency: z.enum(['DAILY', 'WEEKLY', 'MONTHLY', 'CRON']),
+  time: z.string().regex(TIME_OF_DAY_REGEX, 'Expected HH:mm').default('09:00'),
+  daysOfWeek: z.array(z.number().int().min(0).max(6)).optional(), // WEEKLY: 0 = Sunday
+  dayOfMonth: z.number().int().min(1).max(28).optional(), // MONTHLY: capped so every month has a run
+  cron: z.string().optional(), // CRON: standard 5-field expression
+  timezone: z.string().refine(isValidTimezone, 'Invalid timezone').default(DEFAULT_TIMEZONE),
+});
+
+export type RecurrenceInput = z.infer<typeof recurrenceSchema>;
+
+const SENT_STATUSES = ['SENT', 'DELIVERED', 'READ'];
+
+export function buildCronPattern(rule: RecurrenceInput): string {
+  const [hour, minute] = rule.time.split(':').map(Number);
+
+  switch (rule.frequency) {
+    case 'CRON': {
+      const fields = rule.cron?.trim().split(/\s+/) || [];
+      if (fields.length !== 5) {
+        throw new Error('cron must be a 5-field expression (minute hour day-of-month month day-of-week)');
+      }
+      return fields.join(' ');
+    }
+    case 'WEEKLY':
+      if (!rule.daysOfWeek?.length) {
+        throw new Error('daysOfWeek is required for weekly schedules');
+      }
+      return `${minute} ${hour} * * ${[...new Set(rule.daysOfWeek)].sort().join(',')}`;
+    case 'MONTHLY':
+      return `${minute} ${hour} ${rule.dayOfMonth || 1} * *`;
+    case 'DAILY':
+    default:
+      return `${minute} ${hour} * * *`;
+  }
+}
+
+// Registers (or replaces) the BullMQ scheduler; returns when the next run fires
+export async function scheduleRecurringCampaign(campaign: {
+  id: string;
+  userId: string;
+  recurrenceCron: string | null;
+  recurrenceTimezone: string | null;
+}) {
+  if (!campaign.recurrenceCron) {
+    throw new Error('Recurring campaign has no schedule');
+  }
+
+  const job = await upsertRecurringCampaignJob(
+    { campaignId: campaign.id, userId: campaign.userId },
+    campaign.recurrenceCron,
+    campaign.recurrenceTimezone || DEFAULT_TIMEZONE,
+  );
+
+  return { nextRunAt: new Date(job.timestamp + (job.delay || 0)) };
+}
+
+export async function unscheduleRecurringCampaign(campaignId: string) {
+  await removeRecurringCampaignJob(campaignId);
+}
+
+// Fired by the scheduler: resolves the audience again and starts a new run
+export async function runRecurringCampaign(campaignId: string) {
+  const campaign = await prisma.campaign.findUnique({
+    where: { id: campaignId },
+  });
+
+  if (!campaign || campaign.scheduleType !== 'RECURRING' || campaign.status !== 'RUNNING') {
+    console.log(`[Recurring] Campaign ${campaignId} is not active, skipping run`);
+    return { runId: null };
+  }
+
+  // Never overlap runs; the next tick picks up once the previous run drained
+  const inFlight = await prisma.message.count({
+    where: { campaignId, status: { in: ['PENDING', 'QUEUED'] } },
+  });
+
+  if (inFlight > 0) {
+    console.log(`[Recurring] Campaign ${campaignId} still has ${inFlight} messages in flight, skipping run`);
+    return { runId: null };
+  }
+
+  const { buildAudienceWhere } = await import('./campaigns.service');
+  const contacts = await prisma.contact.findMany({
+    where: buildAudienceWhere(campaign),
+    select: { id: true },
+  });
+
+  const lastRun = await prisma.campaignRun.findFirst({
+    where: { campaignId },
+    orderBy: { runNumber: 'desc' },
+  });
+
+  // Previous run drained without a completion check (e.g. it was paused); close it now
+  if (lastRun && !lastRun.completedAt) {
+    await completeCampaignRun(campaign, lastRun.id);
+  }
+
+  const run = await prisma.$transaction(async (tx) => {
+    const run = await tx.campaignRun.create({
+      data: {
+        campaignId,
+        runNumber: (lastRun?.runNumber || 0) + 1,
+        audienceSize: contacts.length,
+      },
+    });
+
+    await tx.message.createMany({
+      data: contacts.map(contact => ({
+        tenantId: campaign.tenantId,
+        campaignId,
+        contactId: contact.id,
+        channel: campaign.channel,
+        content: varyMessage(campaign.template, getMessageSeed(campaignId, contact.id, run.id), {
+          synonyms: campaign.synonymVariation,
+          paraphrases: campaign.paraphrases,
+        }),
+        runId: run.id,
+        status: 'PENDING' as const,
+      })),
+    });
+
+    await tx.campaign.update({
+      where: { id: campaignId },
+      data: { sentCount: 0 },
+    });
+
+    return run;
+  });
+
+  console.log(`[Recurring] Campaign ${campaignId} run #${run.runNumber} started with ${contacts.length} contacts`);
+
+  if (contacts.length > 0) {
+    await addCampaignJob(
+      { campaignId, userId: campaign.userId },
+      0,
+      `${campaignId}-run-${run.runNumber}`,
+    );
+  } else {
+    await completeCampaignRun(campaign, run.id);
+  }
+
+  return { runId: run.id, audienceSize: contacts.length };
+}
+
+export async function getCampaignRuns(campaignId: string, options: { page?: number; limit?: number }) {
+  const { page = 1, limit = 20 } = options;
+
+  const [runs, total] = await Promise.all([
+    prisma.campaignRun.findMany({
+      where: { campaignId },
+      include: { report: true },
+      orderBy: { runNumber: 'desc' },
+      skip: (page - 1) * limit,
+      take: limit,
+    }),
+    prisma.campaignRun.count({ where: { campaignId } }),
+  ]);
+
+  const messages = await prisma.message.findMany({
+    where: { runId: { in: runs.map(r => r.id) } },
+    select: { runId: true, status: true, replyReceived: true, clickedAt: true },
+  });
+
+  return {
+    runs: runs.map(run => {
+      const runMessages = messages.filter(m => m.runId === run.id);
+      const sent = runMessages.filter(m => SENT_STATUSES.includes(m.status)).length;
+      const clicked = runMessages.filter(m => m.clickedAt).length;
+      return {
+        ...run,
+        report: run.report ? serializeCampaignReport(run.report) : null,
+        stats: {
+          total: runMessages.length,
+          pending: runMessages.filter(m => m.status === 'PENDING' || m.status === 'QUEUED').length,
+          sent,
+          delivered: runMessages.filter(m => m.status === 'DELIVERED' || m.status === 'READ').length,
+          failed: runMessages.filter(m => m.status === 'FAILED').length,
+          suppressed: runMessages.filter(m => m.status === 'SUPPRESSED').length,
+          replies: runMessages.filter(m => m.replyReceived).length,
+          clicked,
+          clickThroughRate: sent > 0 ? clicked / sent : 0,
+        },
+      };
+    }),
+    pagination: {
+      page,
+      limit,
+      total,
+      totalPages: Math.ceil(total / limit),
+    },
+  };
+}
@@ -0,0 +1,29 @@
+import { FastifyInstance } from 'fastify';
+import { confirmConsent } from './consent.service';
+import { renderPage, escapeHtml, CHANNEL_LABELS } from '../../lib/html';
+
+// Public double opt-in confirmation (/consent/confirm/:token)
+export async function consentRoutes(fastify: FastifyInstance) {
+  fastify.get('/confirm/:token', async (request, reply) => {
+    const { token } = request.params as { token: string };
+
+    try {
+      const result = await confirmConsent(token, {
+        ipAddress: request.ip,
+        userAgent: request.headers['user-agent'],
+      });
+
+      if (!result) {
+        return reply.code(404).type('text/html').send(renderPage('Link not valid', '<p>This confirmation link is invalid or no longer active.</p>'));
+      }
+
+      const sender = result.organizationName ? ` from ${escapeHtml(result.organizationName)}` : '';
+      return reply.type('text/html').send(renderPage(
+        'Subscription confirmed',
+        `<p>Thanks! You will now receive ${CHANNEL_LABELS[result.channel] || result.channel} messages${sender}.</p>`,
+      ));
+    } catch (error: any) {
+      return reply.code(400).type('text/html').send(renderPage('Something went wrong', `<p>${escapeHtml(error.message)}</p>`));
+    }
+  });
+}
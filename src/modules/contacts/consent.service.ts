@@ -0,0 +1,344 @@
+import { prisma } from '../../lib/prisma';
+import { signToken, verifyToken, decrypt } from '../../lib/crypto';
+import { renderTemplate, assertValidTemplate } from '../../lib/template-renderer';
+import { findSuppression } from '../suppressions/suppressions.service';
+import { addConsentConfirmationJob } from '../../lib/queue';
+import { z } from 'zod';
+import { Channel, Contact, ContactConsent, Organization } from '@prisma/client';
+
+export const CONSENT_CONFIRMED_EVENT = 'consent_confirmed';
+
+// Resend a pending confirmation at most once a day
+const CONFIRMATION_RESEND_MS = 24 * 60 * 60 * 1000;
+
+const CONFIRMATION_VARIABLES = ['confirm_url', 'organization'];
+
+const DEFAULT_CONFIRMATION_MESSAGE = 'Please confirm that you want to receive messages from {organization}: {confirm_url}';
+const DEFAULT_CONFIRMATION_EMAIL = '<p>Please confirm that you want to receive emails from {organization}.</p>'
+  + '<p><a href="{confirm_url}">Confirm subscription</a></p>';
+const DEFAULT_CONFIRMATION_SUBJECT = 'Please confirm your subscription';
+
+const channelEnum = z.enum(['WHATSAPP', 'EMAIL', 'TELEGRAM', 'SMS']);
+
+export const consentSettingsSchema = z.object({
+  consentRequired: z.boolean().optional(),
+  doubleOptInChannels: z.array(channelEnum).optional(),
+  doubleOptInMessage: z.string().min(1).nullable().optional(), // Must contain {confirm_url}
+  doubleOptInSubject: z.string().min(1).nullable().optional(),
+});
+
+export const contactConsentSchema = z.object({
+  channel: channelEnum,
+  status: z.enum(['GRANTED', 'REVOKED']),
+  source: z.string().min(1).max(50).default('manual'),
+  proofText: z.string().max(2000).optional(),
+});
+
+export type ConsentSettingsInput = z.infer<typeof consentSettingsSchema>;
+export type ContactConsentInput = z.infer<typeof contactConsentSchema>;
+
+export type ConsentProof = {
+  source: string;
+  ipAddress?: string;
+  userAgent?: string;
+  proofText?: string;
+};
+
+// ==================== CONFIRMATION LINKS ====================
+
+function createConfirmationToken(consentId: string) {
+  return signToken(JSON.stringify({ k: consentId }));
+}
+
+function parseConfirmationToken(token: string): string | null {
+  const raw = verifyToken(token);
+  if (!raw) {
+    return null;
+  }
+
+  try {
+    const { k } = JSON.parse(raw);
+    return typeof k === 'string' ? k : null;
+  } catch {
+    return null;
+  }
+}
+
+export function getConsentConfirmUrl(consentId: string) {
+  return `${process.env.APP_URL}/consent/confirm/${createConfirmationToken(consentId)}`;
+}
+
+// ==================== SETTINGS ====================
+
+async function getUserTenant(userId: string) {
+  const user = await prisma.user.findUnique({ where: { id: userId } });
+  if (!user) {
+    throw new Error('User not found');
+  }
+  return user.tenantId;
+}
+
+function serializeConsentSettings(organization: Organization) {
+  return {
+    consentRequired: organization.consentRequired,
+    doubleOptInChannels: organization.doubleOptInChannels,
+    doubleOptInMessage: organization.doubleOptInMessage,
+    doubleOptInSubject: organization.doubleOptInSubject,
+  };
+}
+
+export async function getConsentSettings(userId: string) {
+  const tenantId = await getUserTenant(userId);
+  const organization = await prisma.organization.findUniqueOrThrow({ where: { id: tenantId } });
+  return serializeConsentSettings(organization);
+}
+
+export async function updateConsentSettings(userId: string, input: ConsentSettingsInput) {
+  const tenantId = await getUserTenant(userId);
+
+  if (input.doubleOptInMessage) {
+    assertValidTemplate(input.doubleOptInMessage, CONFIRMATION_VARIABLES);
+    if (!input.doubleOptInMessage.includes('{confirm_url}')) {
+      throw new Error('Confirmation message must contain {confirm_url}');
+    }
+  }
+  if (input.doubleOptInSubject) {
+    assertValidTemplate(input.doubleOptInSubject, CONFIRMATION_VARIABLES);
+  }
+
+  const organization = await prisma.organization.update({
+    where: { id: tenantId },
+    data: input,
+  });
+
+  return serializeConsentSettings(organization);
+}
+
+// ==================== RECORDING ====================
+
+function hasAddress(channel: Channel, contact: Pick<Contact, 'phone' | 'email' | 'telegramId'>) {
+  return channel === 'EMAIL' ? !!contact.email
+    : channel === 'TELEGRAM' ? !!contact.telegramId
+    : !!contact.phone;
+}
+
+/**
+ * Records consent for a channel. On double opt-in channels the record stays
+ * PENDING and a confirmation is sent; the channel is only messaged once confirmed.
+ * Existing granted consent is kept as is. Bulk callers (imports) pass queueConfirmation
+ * so the confirmation is sent by the message worker instead of inline.
+ */
+export async function recordConsent(
+  contact: Contact,
+  channel: Channel,
+  proof: ConsentProof,
+  options: { queueConfirmation?: boolean } = {},
+) {
+  if (!hasAddress(channel, contact)) {
+    return null;
+  }
+
+  const existing = await prisma.contactConsent.findUnique({
+    where: { contactId_channel: { contactId: contact.id, channel } },
+  });
+
+  if (existing?.status === 'GRANTED') {
+    return existing;
+  }
+
+  const organization = await prisma.organization.findUniqueOrThrow({ where: { id: contact.tenantId } });
+  const doubleOptIn = organization.doubleOptInChannels.includes(channel);
+
+  const data = {
+    status: doubleOptIn ? 'PENDING' as const : 'GRANTED' as const,
+    source: proof.source,
+    ipAddress: proof.ipAddress,
+    userAgent: proof.userAgent,
+    proofText: proof.proofText,
+    grantedAt: doubleOptIn ? null : new Date(),
+    revokedAt: null,
+  };
+
+  const consent = await prisma.contactConsent.upsert({
+    where: { contactId_channel: { contactId: contact.id, channel } },
+    create: { tenantId: contact.tenantId, contactId: contact.id, channel, ...data },
+    update: data,
+  });
+
+  const recentlySent = existing?.status === 'PENDING' && existing.confirmationSentAt
+    && Date.now() - existing.confirmationSentAt.getTime() < CONFIRMATION_RESEND_MS;
+
+  if (doubleOptIn && !recentlySent) {
+    if (options.queueConfirmation) {
+      await addConsentConfirmationJob({ consentId: consent.id });
+      return consent;
+    }
+    return sendConsentConfirmation(consent, contact, organization);
+  }
+
+  return consent;
+}
+
+// Kept as a REVOKED record so the withdrawal is documented too
+export async function revokeConsent(contact: Pick<Contact, 'id' | 'tenantId'>, channel: Channel, source: string) {
+  const data = { status: 'REVOKED' as const, source, revokedAt: new Date() };
+
+  return prisma.contactConsent.upsert({
+    where: { contactId_channel: { contactId: contact.id, channel } },
+    create: { tenantId: contact.tenantId, contactId: contact.id, channel, ...data },
+    update: data,
+  });
+}
+
+// Sends the double opt-in message through the contact owner's integration
+async function sendConsentConfirmation(consent: ContactConsent, contact: Contact, organization: Organization) {
+  const { getActiveIntegration, getContactAddress, sendEmail, sendSMS, sendWhatsAppMessage, sendTelegramMessage } =
+    await import('../messages/messages.service');
+
+  if (await findSuppression(contact.tenantId, consent.channel, contact)) {
+    console.log(`[Consent] ${consent.channel} address of contact ${contact.id} is suppressed, confirmation not sent`);
+    return consent;
+  }
+
+  const integration = await getActiveIntegration(contact.tenantId, contact.userId, consent.channel);
+  if (!integration) {
+    console.log(`[Consent] No active ${consent.channel} integration, confirmation for contact ${contact.id} not sent`);
+    return consent;
+  }
+
+  const options = {
+    variables: { confirm_url: getConsentConfirmUrl(consent.id), organization: organization.name },
+  };
+  const template = organization.doubleOptInMessage
+    || (consent.channel === 'EMAIL' ? DEFAULT_CONFIRMATION_EMAIL : DEFAULT_CONFIRMATION_MESSAGE);
+  const content = renderTemplate(template, contact, options);
+
+  const config = JSON.parse(decrypt(integration.config));
+  const to = getContactAddress(consent.channel, contact)!;
+
+  const result = consent.channel === 'EMAIL'
+    ? await sendEmail(to, renderTemplate(organization.doubleOptInSubject || DEFAULT_CONFIRMATION_SUBJECT, contact, options), content, config)
+    : consent.channel === 'TELEGRAM'
+      ? await sendTelegramMessage(to, content, config)
+      : consent.channel === 'SMS'
+        ? await sendSMS(to, content, config)
+        : await sendWhatsAppMessage(to, content, config);
+
+  if (!result.success) {
+    console.error(`[Consent] Failed to send confirmation to contact ${contact.id}:`, result.error);
+    return consent;
+  }
+
+  return prisma.contactConsent.update({
+    where: { id: consent.id },
+    data: { confirmationSentAt: new Date() },
+  });
+}
+
+// Message worker side of queueConfirmation; the consent may have changed since it was queued
+export async function sendQueuedConsentConfirmation(consentId: string) {
+  const consent = await prisma.contactConsent.findUnique({
+    where: { id: consentId },
+    include: { contact: true, tenant: true },
+  });
+
+  if (!consent || consent.status !== 'PENDING') {
+    return null;
+  }
+
+  if (consent.confirmationSentAt && Date.now() - consent.confirmationSentAt.getTime() < CONFIRMATION_RESEND_MS) {
+    return consent;
+  }
+
+  return sendConsentConfirmation(consent, consent.contact, consent.tenant);
+}
+
+// Public confirmation link; returns null for invalid or unknown links
+export async function confirmConsent(token: string, info: { ipAddress?: string; userAgent?: string }) {
+  const consentId = parseConfirmationToken(token);
+  if (!consentId) {
+    return null;
+  }
+
+  const consent = await prisma.contactConsent.findUnique({
+    where: { id: consentId },
+    include: { contact: true, tenant: { select: { name: true } } },
+  });
+
+  // Revoked consent can't be reactivated with an old link
+  if (!consent || consent.status === 'REVOKED') {
+    return null;
+  }
+
+  if (consent.status === 'PENDING') {
+    await prisma.contactConsent.update({
+      where: { id: consent.id },
+      data: { status: 'GRANTED', grantedAt: new Date() },
+    });
+
+    // The confirmation request itself is part of the proof
+    await prisma.analyticsEvent.create({
+      data: {
+        tenantId: consent.tenantId,
+        userId: consent.contact.userId,
+        eventType: CONSENT_CONFIRMED_EVENT,
+        contactId: consent.contactId,
+        channel: consent.channel,
+        eventData: JSON.stringify({ consentId: consent.id, ...info }),
+      },
+    });
+
+    console.log(`[Consent] Contact ${consent.contactId} confirmed ${consent.channel}`);
+  }
+
+  return { organizationName: consent.tenant.name, channel: consent.channel };
+}
+
+// ==================== QUERIES ====================
+
+// Same rule as the campaign audience filter, for a single contact and channel
+export async function hasChannelConsent(tenantId: string, contactId: string, channel: Channel) {
+  const [consent, organization] = await Promise.all([
+    prisma.contactConsent.findUnique({ where: { contactId_channel: { contactId, channel } } }),
+    prisma.organization.findUnique({ where: { id: tenantId }, select: { consentRequired: true } }),
+  ]);
+
+  if (consent) {
+    return consent.status === 'GRANTED';
+  }
+
+  return !organization?.consentRequired;
+}
+
+async function findUserContact(userId: string, contactId: string) {
+  const tenantId = await getUserTenant(userId);
+  const contact = await prisma.contact.findFirst({ where: { id: contactId, tenantId, userId } });
+  if (!contact) {
+    throw new Error('Contact not found');
+  }
+  return contact;
+}
+
+export async function getContactConsents(userId: string, contactId: string) {
+  const contact = await findUserContact(userId, contactId);
+  return prisma.contactConsent.findMany({
+    where: { contactId: contact.id },
+    orderBy: { channel: 'asc' },
+  });
+}
+
+// Manual entry from the dashboard (the request IP is the operator's, so none is stored).
+// Grants still go through double opt-in.
+export async function setContactConsent(userId: string, contactId: string, input: ContactConsentInput) {
+  const contact = await findUserContact(userId, contactId);
+
+  if (input.status === 'REVOKED') {
+    return revokeConsent(contact, input.channel, input.source);
+  }
+
+  if (!hasAddress(input.channel, contact)) {
+    throw new Error(`Contact has no address for ${input.channel}`);
+  }
+
+  return recordConsent(contact, input.channel, { source: input.source, proofText: input.proofText });
+}
@@ -0,0 +1,63 @@
+import { prisma } from '../../lib/prisma';
+import { Channel, ContactStatus } from '@prisma/client';
+
+export type StatusChange = {
+  source: string; // "keyword", "unsubscribe_link", "preferences", "bounce", ...
+  channel?: Channel | null;
+  detail?: string;
+};
+
+/**
+ * Changes Contact.status and writes the audit entry. Every status change goes
+ * through here so the contact's history explains why it can (not) be messaged.
+ * Returns false when the status was already set.
+ */
+export async function setContactStatus(
+  contact: { id: string; tenantId: string; status: ContactStatus },
+  status: ContactStatus,
+  change: StatusChange,
+) {
+  if (contact.status === status) {
+    return false;
+  }
+
+  await prisma.$transaction([
+    prisma.contact.update({
+      where: { id: contact.id },
+      data: { status },
+    }),
+    prisma.contactStatusChange.create({
+      data: {
+        tenantId: contact.tenantId,
+        contactId: contact.id,
+        fromStatus: contact.status,
+        toStatus: status,
+        source: change.source,
+        channel: change.channel ?? undefined,
+        detail: change.detail?.slice(0, 500),
+      },
+    }),
+  ]);
+
+  return true;
+}
+
+export async function getContactStatusHistory(userId: string, contactId: string) {
+  const user = await prisma.user.findUnique({ where: { id: userId } });
+  if (!user) {
+    throw new Error('User not found');
+  }
+
+  const contact = await prisma.contact.findFirst({
+    where: { id: contactId, userId, tenantId: user.tenantId },
+  });
+
+  if (!contact) {
+    throw new Error('Contact not found');
+  }
+
+  return prisma.contactStatusChange.findMany({
+    where: { contactId },
+    orderBy: { createdAt: 'desc' },
+  });
+}
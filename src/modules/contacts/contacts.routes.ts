@@ -10,6 +10,16 @@ import {
   contactSchema,
   importContactsSchema,
 } from './contacts.service';
+import {
+  getConsentSettings,
+  updateConsentSettings,
+  getContactConsents,
+  setContactConsent,
+  consentSettingsSchema,
+  contactConsentSchema,
+} from './consent.service';
+import { getKeywordSettings, updateKeywordSettings, keywordSettingsSchema } from './keywords.service';
+import { getContactStatusHistory } from './contact-status.service';
 
 export async function contactsRoutes(fastify: FastifyInstance) {
   // Get all contacts
@@ -53,6 +63,125 @@ export async function contactsRoutes(fastify: FastifyInstance) {
     }
   });
 
+  // Organization consent / double opt-in settings
+  fastify.get('/consent-settings', async (request, reply) => {
+    const userId = (request as any).user?.id;
+
+    if (!userId) {
+      return reply.code(401).send({ success: false, error: 'Unauthorized' });
+    }
+
+    try {
+      const settings = await getConsentSettings(userId);
+      return reply.send({ success: true, settings });
+    } catch (error: any) {
+      return reply.code(400).send({ success: false, error: error.message });
+    }
+  });
+
+  fastify.put('/consent-settings', async (request, reply) => {
+    const userId = (request as any).user?.id;
+
+    if (!userId) {
+      return reply.code(401).send({ success: false, error: 'Unauthorized' });
+    }
+
+    try {
+      const data = consentSettingsSchema.parse(request.body);
+      const settings = await updateConsentSettings(userId, data);
+      return reply.send({ success: true, settings });
+    } catch (error: any) {
+      return reply.code(400).send({ success: false, error: error.message });
+    }
+  });
+
+  // Inbound opt-out / opt-in / HELP keywords and their replies
+  fastify.get('/keyword-settings', async (request, reply) => {
+    const userId = (request as any).user?.id;
+
+    if (!userId) {
+      return reply.code(401).send({ success: false, error: 'Unauthorized' });
+    }
+
+    try {
+      const settings = await getKeywordSettings(userId);
+      return reply.send({ success: true, settings });
+    } catch (error: any) {
+      return reply.code(400).send({ success: false, error: error.message });
+    }
+  });
+
+  fastify.put('/keyword-settings', async (request, reply) => {
+    const userId = (request as any).user?.id;
+
+    if (!userId) {
+      return reply.code(401).send({ success: false, error: 'Unauthorized' });
+    }
+
+    try {
+      const data = keywordSettingsSchema.parse(request.body);
+      const settings = await updateKeywordSettings(userId, data);
+      return reply.send({ success: true, settings });
+    } catch (error: any) {
+      return reply.code(400).send({ success: false, error: error.message });
+    }
+  });
+
+  // Audit trail of status changes (opt-outs, resubscribes, bounces, ...)
+  fastify.get('/:id/status-history', async (request, reply) => {
+    const userId = (request as any).user?.id;
+
+    if (!userId) {
+      return reply.code(401).send({ success: false, error: 'Unauthorized' });
+    }
+
+    const { id } = request.params as { id: string };
+
+    try {
+      const history = await getContactStatusHistory(userId, id);
+      return reply.send({ success: true, history });
+    } catch (error: any) {
+      return reply.code(400).send({ success: false, error: error.message });
+    }
+  });
+
+  // Per-channel consent records of a contact
+  fastify.get('/:id/consents', async (request, reply) => {
+    const userId = (request as any).user?.id;
+
+    if (!userId) {
+      return reply.code(401).send({ success: false, error: 'Unauthorized' });
+    }
+
+    const { id } = request.params as { id: string };
+
+    try {
+      const consents = await getContactConsents(userId, id);
+      return reply.send({ success: true, consents });
+    } catch (error: any) {
+      return reply.code(400).send({ success: false, error: error.message });
+    }
+  });
+
+  // Record or revoke consent for one channel
+  fastify.put('/:id/consents', async (request, reply) => {
+    const userId = (request as any).user?.id;
+
+    if (!userId) {
+      return reply.code(401).send({ success: false, error: 'Unauthorized' });
+    }
+
+    const { id } = request.params as { id: string };
+
+    try {
+      const data = contactConsentSchema.parse(request.body);
+      const consent = await setContactConsent(userId, id, data);
+      return reply.send({ success: true, consent });
+    } catch (error: any) {
+      return reply.code(400).send({ success: false, error: error.message });
+    }
+  });
+
   // Create contact
   fastify.post('/', async (request, reply) => {
     const userId = (request as any).user?.id;
@@ -123,15 +252,16 @@ export async function contactsRoutes(fastify: FastifyInstance) {
       }
 
       const fileBuffer = await data.toBuffer();
-      const { tags } = importContactsSchema.parse(request.body || {});
+      const { tags, consentChannels, consentProof } = importContactsSchema.parse(request.body || {});
+      const consent = consentProof ? { channels: consentChannels, proofText: consentProof } : undefined;
 
       const filename = data.filename.toLowerCase();
       let result;
 
       if (filename.endsWith('.csv')) {
-        result = await importContactsFromCSV(userId, fileBuffer, tags);
+        result = await importContactsFromCSV(userId, fileBuffer, tags, consent);
       } else if (filename.endsWith('.xlsx') || filename.endsWith('.xls')) {
-        result = await importContactsFromExcel(userId, fileBuffer, tags);
+        result = await importContactsFromExcel(userId, fileBuffer, tags, consent);
       } else {
         return reply.code(400).send({
           success: false,
@@ -1,4 +1,7 @@
 import { prisma } from '../../lib/prisma';
+import { isValidTimezone } from '../../lib/timezone';
+import { recordConsent } from './consent.service';
+import { Channel } from '@prisma/client';
 import { z } from 'zod';
 import Papa from 'papaparse';
 import * as XLSX from 'xlsx';
@@ -8,13 +11,22 @@ export const contactSchema = z.object({
   phone: z.string().optional(),
   email: z.string().email().optional(),
   telegramId: z.string().optional(),
+  timezone: z.string().refine(isValidTimezone, 'Invalid IANA timezone').optional(),
   tags: z.array(z.string()).default([]),
 });
 
 export const importContactsSchema = z.object({
   tags: z.array(z.string()).default([]),
+  // Consent is only recorded when the uploader states how it was collected
+  consentChannels: z.array(z.enum(['WHATSAPP', 'EMAIL', 'TELEGRAM', 'SMS'])).default([]),
+  consentProof: z.string().max(2000).optional(),
 });
 
+export type ImportConsent = {
+  channels: Channel[];
+  proofText?: string;
+};
+
 export type ContactInput = z.infer<typeof contactSchema>;
 
 export async function getContacts(userId: string, options: {
@@ -101,6 +113,7 @@ export async function createContact(userId: string, data: ContactInput) {
       phone: data.phone,
       email: data.email,
       telegramId: data.telegramId,
+      timezone: data.timezone,
       tags: data.tags,
     },
   });
@@ -150,7 +163,8 @@ export async function deleteContact(userId: string, contactId: string) {
 export async function importContactsFromCSV(
   userId: string,
   fileBuffer: Buffer,
-  tags: string[] = []
+  tags: string[] = [],
+  consent?: ImportConsent
 ): Promise<{ imported: number; duplicates: number; errors: string[] }> {
   const csvText = fileBuffer.toString('utf-8');
   const result = Papa.parse(csvText, {
@@ -158,26 +172,28 @@ export async function importContactsFromCSV(
     skipEmptyLines: true,
   });
 
-  return processImportData(userId, result.data as any[], tags);
+  return processImportData(userId, result.data as any[], tags, consent);
 }
 
 export async function importContactsFromExcel(
   userId: string,
   fileBuffer: Buffer,
-  tags: string[] = []
+  tags: string[] = [],
+  consent?: ImportConsent
 ): Promise<{ imported: number; duplicates: number; errors: string[] }> {
   const workbook = XLSX.read(fileBuffer, { type: 'buffer' });
   const sheetName = workbook.SheetNames[0];
   const worksheet = workbook.Sheets[sheetName];
   const data = XLSX.utils.sheet_to_json(worksheet);
 
-  return processImportData(userId, data as any[], tags);
+  return processImportData(userId, data as any[], tags, consent);
 }
 
 async function processImportData(
   userId: string,
   data: any[],
-  tags: string[]
+  tags: string[],
+  consent?: ImportConsent
 ): Promise<{ imported: number; duplicates: number; errors: string[] }> {
   const user = await prisma.user.findUnique({ where: { id: userId } });
   if (!user) {
@@ -197,6 +213,7 @@ async function processImportData(
         phone: row.phone || row.Phone || row.PHONE || row.phoneNumber || row.PhoneNumber || '',
         email: row.email || row.Email || row.EMAIL || row.emailAddress || row.EmailAddress || '',
         telegramId: row.telegramId || row.TelegramId || row.telegram || row.Telegram || '',
+        timezone: [row.timezone, row.Timezone, row.TimeZone].find(tz => tz && isValidTimezone(tz)) || null,
         tags: [...tags],
       };
 
@@ -222,7 +239,7 @@ async function processImportData(
         continue;
       }
 
-      await prisma.contact.create({
+      const contact = await prisma.contact.create({
         data: {
           tenantId: user.tenantId,
           userId,
@@ -230,6 +247,11 @@ async function processImportData(
         },
       });
 
+      for (const channel of consent?.channels || []) {
+        // Confirmations go through the queue so large imports respect provider rate limits
+        await recordConsent(contact, channel, { source: 'import', proofText: consent?.proofText }, { queueConfirmation: true });
+      }
+
       imported++;
     } catch (error: any) {
       errors.push(`Row ${i + 1}: ${error.message}`);
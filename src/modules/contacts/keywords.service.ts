@@ -0,0 +1,302 @@
+import { prisma } from '../../lib/prisma';
+import { decrypt } from '../../lib/crypto';
+import { renderTemplate, assertValidTemplate } from '../../lib/template-renderer';
+import { z } from 'zod';
+import { Channel, Contact, Integration, Organization, Prisma } from '@prisma/client';
+import { addSuppressions, normalizeSuppressionValue } from '../suppressions/suppressions.service';
+import { UNSUBSCRIBE_EVENT } from '../campaigns/campaign-report.service';
+import { setContactStatus } from './contact-status.service';
+
+export type KeywordAction = 'OPT_OUT' | 'OPT_IN' | 'HELP';
+
+// Used when a tenant hasn't configured its own lists (CTIA plus common European equivalents)
+export const DEFAULT_KEYWORDS: Record<KeywordAction, string[]> = {
+  OPT_OUT: [
+    'stop', 'stopall', 'unsubscribe', 'cancel', 'end', 'quit', 'revoke', 'optout', 'opt out',
+    'parar', 'baja', 'cancelar', 'alto', // es/pt
+    'arret', 'desabonner', 'desinscrire', // fr
+    'stopp', 'abmelden', 'austragen', // de
+    'annulla', 'disiscriviti', // it
+    'sair', 'descadastrar', // pt
+    'afmelden', // nl
+  ],
+  OPT_IN: ['start', 'unstop', 'subscribe', 'alta', 'reanudar', 'demarrer', 'anmelden', 'iniciar', 'aanmelden'],
+  HELP: ['help', 'info', 'ayuda', 'aide', 'hilfe', 'aiuto', 'ajuda'],
+};
+
+const DEFAULT_REPLIES: Record<KeywordAction, string> = {
+  OPT_OUT: 'You have been unsubscribed from {organization} messages and will not receive any more. Reply START to resubscribe.',
+  OPT_IN: 'You have been resubscribed to {organization} messages. Reply STOP to unsubscribe.',
+  HELP: '{organization}: reply STOP to unsubscribe or START to resubscribe.',
+};
+
+const REPLY_VARIABLES = ['organization'];
+
+const keywordList = z.array(z.string().min(1).max(50)).max(50);
+
+export const keywordSettingsSchema = z.object({
+  optOutKeywords: keywordList.optional(), // Empty list = built-in defaults
+  optInKeywords: keywordList.optional(),
+  helpKeywords: keywordList.optional(),
+  keywordReplies: z.boolean().optional(),
+  optOutReply: z.string().min(1).max(640).nullable().optional(),
+  optInReply: z.string().min(1).max(640).nullable().optional(),
+  helpReply: z.string().min(1).max(640).nullable().optional(),
+});
+
+export type KeywordSettingsInput = z.infer<typeof keywordSettingsSchema>;
+
+/**
+ * Case, accents, surrounding punctuation, a leading "/" (Telegram commands)
+ * and repeated whitespace are ignored: "  Arrêt! " and "/stop" match "arret" and "stop".
+ */
+export function normalizeKeyword(text: string): string {
+  return text
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .trim()
+    .replace(/^\//, '')
+    .replace(/^[^\p{L}\p{N}]+|[^\p{L}\p{N}]+$/gu, '')
+    .replace(/\s+/g, ' ');
+}
+
+function getKeywords(organization: Organization, action: KeywordAction) {
+  const configured = action === 'OPT_OUT' ? organization.optOutKeywords
+    : action === 'OPT_IN' ? organization.optInKeywords
+    : organization.helpKeywords;
+
+  return (configured.length > 0 ? configured : DEFAULT_KEYWORDS[action]).map(normalizeKeyword);
+}
+
+// The whole message must be the keyword; "don't stop sending" is a normal reply
+export function matchKeyword(text: string, organization: Organization): KeywordAction | null {
+  const normalized = normalizeKeyword(text);
+  if (!normalized) {
+    return null;
+  }
+
+  for (const action of ['OPT_OUT', 'OPT_IN', 'HELP'] as KeywordAction[]) {
+    if (getKeywords(organization, action).includes(normalized)) {
+      return action;
+    }
+  }
+
+  return null;
+}
+
+// ==================== SETTINGS ====================
+
+async function getUserTenant(userId: string) {
+  const user = await prisma.user.findUnique({ where: { id: userId } });
+  if (!user) {
+    throw new Error('User not found');
+  }
+  return user.tenantId;
+}
+
+function serializeKeywordSettings(organization: Organization) {
+  return {
+    optOutKeywords: organization.optOutKeywords,
+    optInKeywords: organization.optInKeywords,
+    helpKeywords: organization.helpKeywords,
+    keywordReplies: organization.keywordReplies,
+    optOutReply: organization.optOutReply,
+    optInReply: organization.optInReply,
+    helpReply: organization.helpReply,
+    defaults: { keywords: DEFAULT_KEYWORDS, replies: DEFAULT_REPLIES },
+  };
+}
+
+export async function getKeywordSettings(userId: string) {
+  const tenantId = await getUserTenant(userId);
+  const organization = await prisma.organization.findUniqueOrThrow({ where: { id: tenantId } });
+  return serializeKeywordSettings(organization);
+}
+
+export async function updateKeywordSettings(userId: string, input: KeywordSettingsInput) {
+  const tenantId = await getUserTenant(userId);
+
+  for (const reply of [input.optOutReply, input.optInReply, input.helpReply]) {
+    if (reply) {
+      assertValidTemplate(reply, REPLY_VARIABLES);
+    }
+  }
+
+  const data: Prisma.OrganizationUpdateInput = { ...input };
+  for (const field of ['optOutKeywords', 'optInKeywords', 'helpKeywords'] as const) {
+    if (input[field]) {
+      data[field] = [...new Set(input[field]!.map(normalizeKeyword).filter(Boolean))];
+    }
+  }
+
+  // A word can only trigger one action (checked against the defaults of unconfigured lists too)
+  const organization = await prisma.organization.findUniqueOrThrow({ where: { id: tenantId } });
+  const merged = { ...organization, ...data } as Organization;
+  const seen = new Set<string>();
+  for (const action of ['OPT_OUT', 'OPT_IN', 'HELP'] as KeywordAction[]) {
+    const keywords = getKeywords(merged, action);
+    const duplicate = keywords.find(keyword => seen.has(keyword));
+    if (duplicate) {
+      throw new Error(`Keyword "${duplicate}" is used for more than one action`);
+    }
+    keywords.forEach(keyword => seen.add(keyword));
+  }
+
+  const updated = await prisma.organization.update({
+    where: { id: tenantId },
+    data,
+  });
+
+  return serializeKeywordSettings(updated);
+}
+
+// ==================== INBOUND HANDLING ====================
+
+type InboundAddress = { phone: string } | { telegramId: string };
+
+// Providers differ on the leading "+" (WhatsApp sends bare digits)
+function getContactWhere(address: InboundAddress) {
+  if ('telegramId' in address) {
+    return { telegramId: address.telegramId };
+  }
+
+  const digits = address.phone.replace(/\D/g, '');
+  return { phone: { in: [...new Set([address.phone, digits, `+${digits}`])] } };
+}
+
+function getSuppressionEntry(address: InboundAddress) {
+  return 'telegramId' in address
+    ? { type: 'TELEGRAM' as const, value: address.telegramId }
+    : { type: 'PHONE' as const, value: address.phone };
+}
+
+async function applyOptOut(contacts: Contact[], channel: Channel, address: InboundAddress, keyword: string) {
+  // The address is suppressed for the whole organization, covering duplicate contact records
+  await addSuppressions(contacts[0].tenantId, [getSuppressionEntry(address)], 'OPT_OUT', keyword);
+
+  for (const contact of contacts) {
+    const changed = await setContactStatus(contact, 'UNSUBSCRIBED', { source: 'keyword', channel, detail: keyword });
+    if (!changed) {
+      continue;
+    }
+
+    // Attributed to the campaign of the latest message the contact received
+    const message = await prisma.message.findFirst({
+      where: { contactId: contact.id, status: { in: ['SENT', 'DELIVERED', 'READ'] } },
+      orderBy: { sentAt: 'desc' },
+    });
+
+    await prisma.analyticsEvent.create({
+      data: {
+        tenantId: contact.tenantId,
+        userId: contact.userId,
+        eventType: UNSUBSCRIBE_EVENT,
+        contactId: contact.id,
+        campaignId: message?.campaignId,
+        channel: message?.channel || channel,
+        eventData: JSON.stringify({ reason: 'keyword', keyword }),
+      },
+    });
+  }
+}
+
+async function applyOptIn(contacts: Contact[], channel: Channel, address: InboundAddress, keyword: string) {
+  // Only the keyword opt-out is lifted; bounces, complaints and manual entries stay
+  const entry = getSuppressionEntry(address);
+  try {
+    await prisma.suppression.deleteMany({
+      where: {
+        tenantId: contacts[0].tenantId,
+        type: entry.type,
+        value: normalizeSuppressionValue(entry.type, entry.value),
+        reason: 'OPT_OUT',
+      },
+    });
+  } catch (error: any) {
+    console.error('[Keywords] Could not lift suppression:', error.message);
+  }
+
+  for (const contact of contacts) {
+    if (contact.status === 'UNSUBSCRIBED') {
+      await setContactStatus(contact, 'ACTIVE', { source: 'keyword', channel, detail: keyword });
+    }
+  }
+}
+
+async function sendKeywordReply(
+  organization: Organization,
+  contact: Contact,
+  channel: Channel,
+  address: InboundAddress,
+  action: KeywordAction,
+  integration: Integration, // Answered from the number/bot the keyword was sent to
+) {
+  const { sendSMS, sendWhatsAppMessage, sendTelegramMessage } = await import('../messages/messages.service');
+
+  const template = (action === 'OPT_OUT' ? organization.optOutReply
+    : action === 'OPT_IN' ? organization.optInReply
+    : organization.helpReply) || DEFAULT_REPLIES[action];
+  const content = renderTemplate(template, contact, { variables: { organization: organization.name } });
+  const config = JSON.parse(decrypt(integration.config));
+
+  const result = 'telegramId' in address
+    ? await sendTelegramMessage(address.telegramId, content, config)
+    : channel === 'SMS'
+      ? await sendSMS(address.phone, content, config)
+      : await sendWhatsAppMessage(address.phone, content, config);
+
+  if (!result.success) {
+    console.error(`[Keywords] Failed to send ${action} reply to contact ${contact.id}:`, result.error);
+  }
+}
+
+/**
+ * Handles an inbound message that may be an opt-out, opt-in or HELP keyword.
+ * Only contacts of the receiving integration's tenant are affected, using that
+ * tenant's keywords. Returns the action taken, if any.
+ */
+export async function handleInboundKeyword(
+  channel: Channel,
+  address: InboundAddress,
+  text: string,
+  integration: Integration,
+): Promise<KeywordAction | null> {
+  if (!text) {
+    return null;
+  }
+
+  const tenantId = integration.tenantId;
+  const [organization, contacts] = await Promise.all([
+    prisma.organization.findUnique({ where: { id: tenantId } }),
+    prisma.contact.findMany({ where: { ...getContactWhere(address), tenantId } }),
+  ]);
+
+  if (!organization || contacts.length === 0) {
+    return null;
+  }
+
+  const action = matchKeyword(text, organization);
+  if (!action) {
+    return null;
+  }
+
+  const keyword = normalizeKeyword(text);
+  console.log(`[Keywords] ${action} (${keyword}) from ${channel} contact in tenant ${tenantId}`);
+
+  if (action === 'OPT_OUT') {
+    await applyOptOut(contacts, channel, address, keyword);
+  } else if (action === 'OPT_IN') {
+    await applyOptIn(contacts, channel, address, keyword);
+  }
+
+  if (organization.keywordReplies) {
+    try {
+      await sendKeywordReply(organization, contacts[0], channel, address, action, integration);
+    } catch (error: any) {
+      console.error(`[Keywords] Reply failed for tenant ${tenantId}:`, error.message);
+    }
+  }
+
+  return action;
+}
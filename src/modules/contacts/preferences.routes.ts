@@ -0,0 +1,140 @@
+import { FastifyInstance } from 'fastify';
+import { parseUnsubscribeToken } from '../../lib/unsubscribe';
+import { CHANNEL_LABELS, escapeHtml, renderPage } from '../../lib/html';
+import {
+  getContactPreferences,
+  unsubscribeContact,
+  updateContactPreferences,
+  contactPreferencesSchema,
+} from './preferences.service';
+
+// Why the page cannot resubscribe the contact
+function describeUnsubscribeSource(source: string | null) {
+  switch (source) {
+    case 'keyword':
+      return 'You opted out by replying STOP. Reply START to the same number to subscribe again.';
+    case 'complaint':
+      return 'You reported one of our emails as spam, so we will not message you again.';
+    default:
+      return 'You were unsubscribed by the sender. Contact them to subscribe again.';
+  }
+}
+
+function renderPreferencesPage(token: string, preferences: Awaited<ReturnType<typeof getContactPreferences>>, notice?: string) {
+  const checkbox = (name: string, value: string, label: string, checked: boolean) =>
+    `<label><input type="checkbox" name="${name}" value="${escapeHtml(value)}"${checked ? ' checked' : ''} /> ${escapeHtml(label)}</label>`;
+
+  const body = [
+    notice ? `<p><strong>${escapeHtml(notice)}</strong></p>` : '',
+    preferences.unsubscribed
+      ? preferences.canResubscribe
+        ? '<p class="muted">You are unsubscribed from all messages. Save your preferences below to subscribe again.</p>'
+        : `<p class="muted">You are unsubscribed from all messages. ${escapeHtml(describeUnsubscribeSource(preferences.unsubscribeSource))}</p>`
+      : '<p class="muted">Choose which messages you still want to receive.</p>',
+    `<form method="post" action="/unsubscribe/${token}/preferences">`,
+    preferences.channels.length > 0
+      ? `<fieldset><legend>Channels</legend>${preferences.channels
+        .map(c => checkbox('channels', c.channel, CHANNEL_LABELS[c.channel], c.subscribed))
+        .join('')}</fieldset>`
+      : '',
+    preferences.topics.length > 0
+      ? `<fieldset><legend>Topics</legend>${preferences.topics
+        .map(t => checkbox('topics', t.topic, t.topic, t.subscribed))
+        .join('')}</fieldset>`
+      : '',
+    `<fieldset>${checkbox('unsubscribeAll', 'true', 'Unsubscribe from all messages', false)}</fieldset>`,
+    '<button type="submit">Save preferences</button>',
+    '</form>',
+  ].join('\n');
+
+  return renderPage(
+    preferences.organizationName ? `${preferences.organizationName} preferences` : 'Message preferences',
+    body,
+  );
+}
+
+// Form posts arrive urlencoded; checkboxes repeat the same key
+function parsePreferencesBody(body: unknown) {
+  if (typeof body !== 'string') {
+    return contactPreferencesSchema.parse(body || {});
+  }
+
+  const params = new URLSearchParams(body);
+  return contactPreferencesSchema.parse({
+    channels: params.getAll('channels'),
+    topics: params.getAll('topics'),
+    unsubscribeAll: params.get('unsubscribeAll') === 'true',
+  });
+}
+
+// Public unsubscribe and preference center, authorized by the signed token in the link
+export async function preferencesRoutes(fastify: FastifyInstance) {
+  // Scoped to these routes: HTML forms and RFC 8058 one-click POSTs
+  fastify.addContentTypeParser('application/x-www-form-urlencoded', { parseAs: 'string' }, (request, body, done) => {
+    done(null, body);
+  });
+
+  // Preference page
+  fastify.get('/:token', async (request, reply) => {
+    const { token } = request.params as { token: string };
+    const payload = parseUnsubscribeToken(token);
+
+    if (!payload) {
+      return reply.code(404).type('text/html').send(renderPage('Link not valid', '<p>This unsubscribe link is invalid.</p>'));
+    }
+
+    try {
+      const preferences = await getContactPreferences(payload);
+      return reply.type('text/html').send(renderPreferencesPage(token, preferences));
+    } catch (error: any) {
+      return reply.code(404).type('text/html').send(renderPage('Link not valid', `<p>${escapeHtml(error.message)}</p>`));
+    }
+  });
+
+  // One-click unsubscribe from the mail client (List-Unsubscribe-Post)
+  fastify.post('/:token', async (request, reply) => {
+    const { token } = request.params as { token: string };
+    const payload = parseUnsubscribeToken(token);
+
+    if (!payload) {
+      return reply.code(404).send({ success: false, error: 'Invalid unsubscribe link' });
+    }
+
+    try {
+      await unsubscribeContact(payload, 'one_click');
+      return { success: true };
+    } catch (error: any) {
+      return reply.code(400).send({ success: false, error: error.message });
+    }
+  });
+
+  // Preference form submit
+  fastify.post('/:token/preferences', async (request, reply) => {
+    const { token } = request.params as { token: string };
+    const payload = parseUnsubscribeToken(token);
+
+    if (!payload) {
+      return reply.code(404).send({ success: false, error: 'Invalid unsubscribe link' });
+    }
+
+    try {
+      const input = parsePreferencesBody(request.body);
+      const result = await updateContactPreferences(payload, input);
+
+      // Browsers get the page back, API clients JSON
+      if (typeof request.body === 'string') {
+        const preferences = await getContactPreferences(payload);
+        const notice = input.unsubscribeAll
+          ? 'You have been unsubscribed.'
+          : result.unsubscribed
+            ? 'Your preferences have been saved, but you are still unsubscribed from all messages.'
+            : 'Your preferences have been saved.';
+        return reply.type('text/html').send(renderPreferencesPage(token, preferences, notice));
+      }
+
+      return { success: true, data: result };
+    } catch (error: any) {
+      return reply.code(400).send({ success: false, error: error.message });
+    }
+  });
+}
@@ -0,0 +1,173 @@
+import { prisma } from '../../lib/prisma';
+import { z } from 'zod';
+import { Channel } from '@prisma/client';
+import { UnsubscribePayload } from '../../lib/unsubscribe';
+import { UNSUBSCRIBE_EVENT } from '../campaigns/campaign-report.service';
+import { setContactStatus } from './contact-status.service';
+
+// Partial opt-outs; only a full unsubscribe counts towards campaign unsubscribes
+export const PREFERENCES_UPDATED_EVENT = 'contact_preferences_updated';
+
+const CHANNELS: Channel[] = ['EMAIL', 'SMS', 'WHATSAPP', 'TELEGRAM'];
+
+// Opt-outs made through this page can be undone here; STOP replies, spam
+// complaints and manual changes cannot
+const SELF_SERVICE_UNSUBSCRIBE_SOURCES = ['unsubscribe_link', 'one_click_unsubscribe'];
+
+// Submitted by the preference page: what the contact still wants to receive
+export const contactPreferencesSchema = z.object({
+  channels: z.array(z.enum(['WHATSAPP', 'EMAIL', 'TELEGRAM', 'SMS'])).default([]),
+  topics: z.array(z.string()).default([]),
+  unsubscribeAll: z.boolean().default(false),
+});
+
+export type ContactPreferencesInput = z.infer<typeof contactPreferencesSchema>;
+
+async function findContact(payload: UnsubscribePayload) {
+  const contact = await prisma.contact.findUnique({ where: { id: payload.contactId } });
+  if (!contact) {
+    throw new Error('Contact not found');
+  }
+  return contact;
+}
+
+// Channels the contact has an address for
+function getReachableChannels(contact: { phone: string | null; email: string | null; telegramId: string | null }) {
+  return CHANNELS.filter(channel =>
+    channel === 'EMAIL' ? contact.email :
+    channel === 'TELEGRAM' ? contact.telegramId :
+    contact.phone
+  );
+}
+
+async function getTenantTopics(tenantId: string) {
+  const campaigns = await prisma.campaign.findMany({
+    where: { tenantId, topic: { not: null } },
+    select: { topic: true },
+    distinct: ['topic'],
+    orderBy: { topic: 'asc' },
+  });
+  return campaigns.map(c => c.topic!);
+}
+
+// Source of the status change that unsubscribed the contact, if they are unsubscribed
+async function getUnsubscribeSource(contact: { id: string; status: string }) {
+  if (contact.status !== 'UNSUBSCRIBED') {
+    return null;
+  }
+
+  const change = await prisma.contactStatusChange.findFirst({
+    where: { contactId: contact.id, toStatus: 'UNSUBSCRIBED' },
+    orderBy: { createdAt: 'desc' },
+    select: { source: true },
+  });
+  return change?.source ?? 'unknown';
+}
+
+export async function getContactPreferences(payload: UnsubscribePayload) {
+  const contact = await findContact(payload);
+  const [organization, topics, unsubscribeSource] = await Promise.all([
+    prisma.organization.findUnique({ where: { id: contact.tenantId }, select: { name: true } }),
+    getTenantTopics(contact.tenantId),
+    getUnsubscribeSource(contact),
+  ]);
+
+  return {
+    organizationName: organization?.name,
+    unsubscribed: contact.status === 'UNSUBSCRIBED',
+    unsubscribeSource,
+    canResubscribe: !unsubscribeSource || SELF_SERVICE_UNSUBSCRIBE_SOURCES.includes(unsubscribeSource),
+    channels: getReachableChannels(contact).map(channel => ({
+      channel,
+      subscribed: !contact.optedOutChannels.includes(channel),
+    })),
+    topics: topics.map(topic => ({
+      topic,
+      subscribed: !contact.optedOutTopics.includes(topic),
+    })),
+  };
+}
+
+async function recordPreferenceEvent(
+  eventType: string,
+  contact: { id: string; tenantId: string; userId: string },
+  payload: UnsubscribePayload,
+  eventData: Record<string, any>,
+) {
+  // Attributed to the campaign whose email carried the link
+  const message = payload.messageId
+    ? await prisma.message.findFirst({ where: { id: payload.messageId, contactId: contact.id } })
+    : null;
+
+  await prisma.analyticsEvent.create({
+    data: {
+      tenantId: contact.tenantId,
+      userId: contact.userId,
+      eventType,
+      contactId: contact.id,
+      campaignId: message?.campaignId,
+      channel: message?.channel,
+      eventData: JSON.stringify(eventData),
+    },
+  });
+}
+
+// Unsubscribe link / one-click POST: stops all campaign messages to the contact
+export async function unsubscribeContact(payload: UnsubscribePayload, reason: 'link' | 'one_click') {
+  const contact = await findContact(payload);
+
+  if (contact.status === 'UNSUBSCRIBED') {
+    return { alreadyUnsubscribed: true };
+  }
+
+  await setContactStatus(contact, 'UNSUBSCRIBED', {
+    source: reason === 'one_click' ? 'one_click_unsubscribe' : 'unsubscribe_link',
+  });
+
+  await recordPreferenceEvent(UNSUBSCRIBE_EVENT, contact, payload, { reason });
+
+  console.log(`[Preferences] Contact ${contact.id} unsubscribed (${reason})`);
+
+  return { alreadyUnsubscribed: false };
+}
+
+export async function updateContactPreferences(payload: UnsubscribePayload, input: ContactPreferencesInput) {
+  if (input.unsubscribeAll) {
+    await unsubscribeContact(payload, 'link');
+    return { unsubscribed: true };
+  }
+
+  const contact = await findContact(payload);
+  const topics = await getTenantTopics(contact.tenantId);
+
+  const optedOutChannels = getReachableChannels(contact).filter(channel => !(input.channels as Channel[]).includes(channel));
+  const optedOutTopics = topics.filter(topic => !input.topics.includes(topic));
+
+  await prisma.contact.update({
+    where: { id: contact.id },
+    data: { optedOutChannels, optedOutTopics },
+  });
+
+  // Saving preferences undoes an unsubscribe made from the link or this page;
+  // bounced addresses stay suppressed
+  let stillUnsubscribed = false;
+  const unsubscribeSource = await getUnsubscribeSource(contact);
+  if (unsubscribeSource) {
+    if (SELF_SERVICE_UNSUBSCRIBE_SOURCES.includes(unsubscribeSource)) {
+      await setContactStatus(contact, 'ACTIVE', { source: 'preferences' });
+    } else {
+      stillUnsubscribed = true;
+    }
+  }
+
+  const newlyOptedOut = {
+    channels: optedOutChannels.filter(channel => !contact.optedOutChannels.includes(channel)),
+    topics: optedOutTopics.filter(topic => !contact.optedOutTopics.includes(topic)),
+  };
+
+  if (newlyOptedOut.channels.length > 0 || newlyOptedOut.topics.length > 0) {
+    await recordPreferenceEvent(PREFERENCES_UPDATED_EVENT, contact, payload, newlyOptedOut);
+  }
+
+  return { unsubscribed: stillUnsubscribed, unsubscribeSource, optedOutChannels, optedOutTopics };
+}
@@ -9,6 +9,7 @@ import {
   testIntegration,
   createIntegrationSchema,
 } from './integrations.service';
+import { syncWhatsAppTemplates, getWhatsAppTemplates } from './whatsapp-templates.service';
 
 export async function integrationsRoutes(fastify: FastifyInstance) {
   // Get all integrations
@@ -134,4 +135,41 @@ export async function integrationsRoutes(fastify: FastifyInstance) {
       return reply.code(400).send({ success: false, error: error.message });
     }
   });
+
+  // Sync approved message templates from the WhatsApp Business account
+  fastify.post('/:id/whatsapp-templates/sync', async (request, reply) => {
+    const userId = (request as any).user?.id;
+    
+    if (!userId) {
+      return reply.code(401).send({ success: false, error: 'Unauthorized' });
+    }
+
+    const { id } = request.params as { id: string };
+
+    try {
+      const result = await syncWhatsAppTemplates(userId, id);
+      return reply.send({ success: true, ...result });
+    } catch (error: any) {
+      return reply.code(400).send({ success: false, error: error.message });
+    }
+  });
+
+  // List synced WhatsApp templates
+  fastify.get('/:id/whatsapp-templates', async (request, reply) => {
+    const userId = (request as any).user?.id;
+    
+    if (!userId) {
+      return reply.code(401).send({ success: false, error: 'Unauthorized' });
+    }
+
+    const { id } = request.params as { id: string };
+    const { status } = request.query as { status?: string };
+
+    try {
+      const templates = await getWhatsAppTemplates(userId, id, { status });
+      return reply.send({ success: true, templates });
+    } catch (error: any) {
+      return reply.code(400).send({ success: false, error: error.message });
+    }
+  });
 }
@@ -1,12 +1,17 @@
 import { prisma } from '../../lib/prisma';
-import { encrypt, decrypt } from '../../lib/crypto';
+import { encrypt, decrypt, generateRandomToken } from '../../lib/crypto';
+import { getIntegrationRateLimitState } from '../../lib/rate-limiter';
 import { z } from 'zod';
-import { Channel } from '@prisma/client';
+import { Channel, Integration } from '@prisma/client';
+import { EMAIL_BOUNCE_PROVIDERS } from '../messages/email-bounces.service';
 
 // Validation schemas for each channel
 const whatsappConfigSchema = z.object({
   phoneNumberId: z.string(),
   accessToken: z.string(),
+  businessAccountId: z.string().optional(), // Needed to sync message templates
+  appSecret: z.string().optional(), // Verifies webhook signatures, falls back to META_APP_SECRET
+  verifyToken: z.string().optional(), // Webhook subscription token, generated when missing
 });
 
 const emailConfigSchema = z.object({
@@ -16,10 +21,24 @@ const emailConfigSchema = z.object({
   pass: z.string(),
   secure: z.boolean().optional(),
   fromName: z.string().optional(),
+  // Bounce mailbox polled for delivery status notifications; defaults to the SMTP login
+  imapHost: z.string().optional(),
+  imapPort: z.string().optional(),
+  imapSecure: z.boolean().optional(),
+  imapUser: z.string().optional(),
+  imapPass: z.string().optional(),
+  imapMailbox: z.string().optional(),
+  // Secrets for signed bounce/complaint webhooks of the ESP relaying this SMTP traffic
+  sendgridVerificationKey: z.string().optional(), // Signed event webhook public key
+  mailgunSigningKey: z.string().optional(),
+  sesTopicArn: z.string().optional(), // SNS topic the SES notifications are published to
+  postmarkWebhookUser: z.string().optional(), // Basic auth credentials set on the Postmark webhook
+  postmarkWebhookPassword: z.string().optional(),
 });
 
 const telegramConfigSchema = z.object({
   botToken: z.string(),
+  webhookSecret: z.string().regex(/^[A-Za-z0-9_-]{1,256}$/).optional(), // Generated when missing
 });
 
 const smsConfigSchema = z.object({
@@ -33,21 +52,68 @@ export const createIntegrationSchema = z.object({
   provider: z.string(),
   config: z.record(z.any()),
   isActive: z.boolean().optional(),
+  rateLimitPerSecond: z.number().int().min(1).nullable().optional(),
+  rateLimitPerMinute: z.number().int().min(1).nullable().optional(),
+  rateLimitPerDay: z.number().int().min(1).nullable().optional(),
 });
 
 export type IntegrationInput = z.infer<typeof createIntegrationSchema>;
 
+const WEBHOOK_PATHS: Partial<Record<Channel, string>> = {
+  WHATSAPP: 'whatsapp',
+  SMS: 'twilio',
+  TELEGRAM: 'telegram',
+};
+
+export function getWebhookUrl(integration: Pick<Integration, 'id' | 'channel'>) {
+  const path = WEBHOOK_PATHS[integration.channel];
+  return path ? `${process.env.APP_URL}/webhooks/${path}/${integration.id}` : null;
+}
+
+// What to enter in the provider's console (Telegram bots are registered automatically)
+function getWebhookSettings(integration: Integration) {
+  if (integration.channel === 'EMAIL') {
+    return {
+      bounceUrls: Object.fromEntries(EMAIL_BOUNCE_PROVIDERS.map(provider =>
+        [provider, `${process.env.APP_URL}/webhooks/email/${provider}/${integration.id}`])),
+    };
+  }
+
+  const url = getWebhookUrl(integration);
+  if (!url || integration.channel !== 'WHATSAPP') {
+    return url ? { url } : null;
+  }
+
+  try {
+    return { url, verifyToken: JSON.parse(decrypt(integration.config)).verifyToken || null };
+  } catch {
+    return { url, verifyToken: null };
+  }
+}
+
+// Per-integration secrets the provider sends back on webhook calls; kept across config updates
+function withWebhookSecrets(channel: Channel, config: any, previous: any = {}) {
+  if (channel === 'TELEGRAM') {
+    config.webhookSecret ||= previous.webhookSecret || generateRandomToken(24);
+  } else if (channel === 'WHATSAPP') {
+    config.verifyToken ||= previous.verifyToken || generateRandomToken(16);
+  }
+  return config;
+}
+
 export async function getIntegrations(userId: string) {
   const integrations = await prisma.integration.findMany({
     where: { userId },
     orderBy: { createdAt: 'desc' },
   });
 
-  return integrations.map(int => ({
+  return Promise.all(integrations.map(async int => ({
     ...int,
     config: undefined, // Don't return encrypted config
     isConfigured: true,
-  }));
+    webhook: getWebhookSettings(int),
+    rateLimitState: await getIntegrationRateLimitState(int),
+  })));
 }
 
 export async function getIntegration(userId: string, integrationId: string) {
@@ -62,6 +128,8 @@ export async function getIntegration(userId: string, integrationId: string) {
   return {
     ...integration,
     config: undefined,
+    webhook: getWebhookSettings(integration),
+    rateLimitState: await getIntegrationRateLimitState(integration),
   };
 }
 
@@ -82,18 +150,29 @@ export async function createIntegration(userId: string, data: IntegrationInput)
     throw new Error(`Integration for ${data.channel} with ${data.provider} already exists`);
   }
 
+  withWebhookSecrets(data.channel, data.config);
+
   // Encrypt config
   const encryptedConfig = encrypt(JSON.stringify(data.config));
 
-  return prisma.integration.create({
+  const created = await prisma.integration.create({
     data: {
       userId,
       channel: data.channel,
       provider: data.provider,
       config: encryptedConfig,
       isActive: true,
+      rateLimitPerSecond: data.rateLimitPerSecond,
+      rateLimitPerMinute: data.rateLimitPerMinute,
+      rateLimitPerDay: data.rateLimitPerDay,
     },
   });
+
+  if (data.channel === 'TELEGRAM') {
+    await registerTelegramWebhook(created.id, data.config);
+  }
+
+  return created;
 }
 
 export async function updateIntegration(
@@ -113,6 +192,7 @@ export async function updateIntegration(
 
   if (data.config) {
     validateConfig(integration.channel, data.config);
+    withWebhookSecrets(integration.channel, data.config, JSON.parse(decrypt(integration.config)));
     updateData.config = encrypt(JSON.stringify(data.config));
   }
 
@@ -120,10 +200,22 @@ export async function updateIntegration(
     updateData.isActive = data.isActive;
   }
 
-  return prisma.integration.update({
+  for (const field of ['rateLimitPerSecond', 'rateLimitPerMinute', 'rateLimitPerDay'] as const) {
+    if (data[field] !== undefined) {
+      updateData[field] = data[field];
+    }
+  }
+
+  const updated = await prisma.integration.update({
     where: { id: integrationId },
     data: updateData,
   });
+
+  if (data.config && integration.channel === 'TELEGRAM') {
+    await registerTelegramWebhook(integration.id, data.config);
+  }
+
+  return updated;
 }
 
 export async function deleteIntegration(userId: string, integrationId: string) {
@@ -205,6 +297,58 @@ function validateConfig(channel: Channel, config: any) {
   }
 }
 
+// Points the bot at our webhook; Telegram then sends the secret in X-Telegram-Bot-Api-Secret-Token.
+// Returns false when Telegram did not accept it
+async function registerTelegramWebhook(integrationId: string, config: any): Promise<boolean> {
+  try {
+    const axios = (await import('axios')).default;
+
+    await axios.post(`https://api.telegram.org/bot${config.botToken}/setWebhook`, {
+      url: getWebhookUrl({ id: integrationId, channel: 'TELEGRAM' }),
+      secret_token: config.webhookSecret,
+    });
+    return true;
+  } catch (error: any) {
+    console.error('[Integrations] Failed to register Telegram webhook:', error.response?.data?.description || error.message);
+    return false;
+  }
+}
+
+// Telegram integrations created before webhook secrets existed: generate one and re-register the webhook
+export async function ensureTelegramWebhookSecrets() {
+  const integrations = await prisma.integration.findMany({
+    where: { channel: 'TELEGRAM' },
+  });
+
+  let updated = 0;
+  for (const integration of integrations) {
+    try {
+      const config = JSON.parse(decrypt(integration.config));
+      if (config.webhookSecret) {
+        continue;
+      }
+
+      // Stored only once Telegram has it, otherwise every update would be rejected; retried on the next start
+      withWebhookSecrets('TELEGRAM', config);
+      if (!(await registerTelegramWebhook(integration.id, config))) {
+        continue;
+      }
+
+      await prisma.integration.update({
+        where: { id: integration.id },
+        data: { config: encrypt(JSON.stringify(config)) },
+      });
+      updated++;
+    } catch (error: any) {
+      console.error(`[Integrations] Failed to add webhook secret to integration ${integration.id}:`, error.message);
+    }
+  }
+
+  if (updated > 0) {
+    console.log(`[Integrations] Added webhook secrets to ${updated} Telegram integration(s)`);
+  }
+}
+
 // Test functions
 async function testWhatsApp(config: any): Promise<{ success: boolean; error?: string }> {
   try {
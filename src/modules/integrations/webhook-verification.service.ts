@@ -0,0 +1,388 @@
+import { createHmac, createPublicKey, createVerify, timingSafeEqual } from 'crypto';
+import { FastifyRequest } from 'fastify';
+import { prisma } from '../../lib/prisma';
+import { decrypt } from '../../lib/crypto';
+import { Channel, Integration } from '@prisma/client';
+
+export type WebhookFailureReason =
+  | 'missing_signature'
+  | 'invalid_signature'
+  | 'unknown_integration'
+  | 'missing_secret';
+
+type Verification =
+  | { valid: true; integration: Integration; config: any }
+  | { valid: false; reason: WebhookFailureReason; integration?: Integration };
+
+function safeEqual(a: string, b: string) {
+  const left = Buffer.from(a);
+  const right = Buffer.from(b);
+  return left.length === right.length && timingSafeEqual(left, right);
+}
+
+// Meta: "sha256=" + hex HMAC-SHA256 of the raw body, keyed with the app secret
+export function verifyMetaSignature(rawBody: Buffer, header: string, appSecret: string) {
+  const expected = 'sha256=' + createHmac('sha256', appSecret).update(rawBody).digest('hex');
+  return safeEqual(header, expected);
+}
+
+// Twilio: base64 HMAC-SHA1 of the full URL followed by every POST param (name + value, sorted by name)
+export function verifyTwilioSignature(url: string, params: URLSearchParams, header: string, authToken: string) {
+  const data = [...params.entries()]
+    .sort(([a, x], [b, y]) => (a === b ? (x < y ? -1 : 1) : a < b ? -1 : 1))
+    .reduce((acc, [name, value]) => acc + name + value, url);
+
+  const expected = createHmac('sha1', authToken).update(Buffer.from(data, 'utf8')).digest('base64');
+  return safeEqual(header, expected);
+}
+
+// Configs are encrypted, so the channel's integrations are decrypted and matched in memory
+async function findIntegration(channel: Channel, match: (config: any) => boolean) {
+  const integrations = await prisma.integration.findMany({
+    where: { channel },
+    orderBy: { isActive: 'desc' },
+  });
+
+  for (const integration of integrations) {
+    try {
+      const config = JSON.parse(decrypt(integration.config));
+      if (match(config)) {
+        return { integration, config };
+      }
+    } catch {
+      continue;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Webhook URLs are keyed by integration (/webhooks/<provider>/:integrationId).
+ * The older shared URLs are still accepted and matched by the payload.
+ */
+async function resolveIntegration(
+  channel: Channel,
+  request: FastifyRequest,
+  legacyMatch: ((config: any) => boolean) | null,
+) {
+  const { integrationId } = (request.params || {}) as { integrationId?: string };
+
+  if (integrationId) {
+    const integration = await prisma.integration.findFirst({ where: { id: integrationId, channel } });
+    if (integration) {
+      try {
+        return { integration, config: JSON.parse(decrypt(integration.config)) };
+      } catch {
+        return null;
+      }
+    }
+  }
+
+  return legacyMatch ? findIntegration(channel, legacyMatch) : null;
+}
+
+// Meta's subscription handshake (GET with hub.verify_token)
+export async function verifyWhatsAppSubscription(integrationId: string, verifyToken: string) {
+  const integration = await prisma.integration.findFirst({ where: { id: integrationId, channel: 'WHATSAPP' } });
+  if (!integration || !verifyToken) {
+    return false;
+  }
+
+  try {
+    const config = JSON.parse(decrypt(integration.config));
+    return !!config.verifyToken && safeEqual(verifyToken, config.verifyToken);
+  } catch {
+    return false;
+  }
+}
+
+function getHeader(request: FastifyRequest, name: string) {
+  const value = request.headers[name];
+  return typeof value === 'string' && value ? value : null;
+}
+
+function getRawBody(request: FastifyRequest): Buffer {
+  const raw = request.rawBody;
+  return Buffer.isBuffer(raw) ? raw : Buffer.from(raw || '');
+}
+
+async function verifyWhatsApp(request: FastifyRequest): Promise<Verification> {
+  const signature = getHeader(request, 'x-hub-signature-256');
+  if (!signature) {
+    return { valid: false, reason: 'missing_signature' };
+  }
+
+  const body = request.body as any;
+  const phoneNumberId = (body?.entry || [])
+    .flatMap((entry: any) => entry.changes || [])
+    .map((change: any) => change.value?.metadata?.phone_number_id)
+    .find(Boolean);
+
+  const match = await resolveIntegration('WHATSAPP', request, phoneNumberId
+    ? config => config.phoneNumberId === phoneNumberId
+    : null);
+  if (!match) {
+    return { valid: false, reason: 'unknown_integration' };
+  }
+
+  // A shared platform Meta app can sign for integrations without their own app
+  const appSecret = match.config.appSecret || process.env.META_APP_SECRET;
+  if (!appSecret) {
+    return { valid: false, reason: 'missing_secret', integration: match.integration };
+  }
+
+  if (!verifyMetaSignature(getRawBody(request), signature, appSecret)) {
+    return { valid: false, reason: 'invalid_signature', integration: match.integration };
+  }
+
+  return { valid: true, integration: match.integration, config: match.config };
+}
+
+async function verifyTwilio(request: FastifyRequest): Promise<Verification> {
+  const signature = getHeader(request, 'x-twilio-signature');
+  if (!signature) {
+    return { valid: false, reason: 'missing_signature' };
+  }
+
+  const params = new URLSearchParams(getRawBody(request).toString('utf8'));
+  const accountSid = params.get('AccountSid');
+
+  const match = await resolveIntegration('SMS', request, accountSid
+    ? config => config.accountSid === accountSid
+    : null);
+  if (!match) {
+    return { valid: false, reason: 'unknown_integration' };
+  }
+
+  if (!match.config.authToken) {
+    return { valid: false, reason: 'missing_secret', integration: match.integration };
+  }
+
+  // Twilio signs the public URL it called, not the one behind our proxy
+  const url = `${process.env.APP_URL}${request.url}`;
+  if (!verifyTwilioSignature(url, params, signature, match.config.authToken)) {
+    return { valid: false, reason: 'invalid_signature', integration: match.integration };
+  }
+
+  return { valid: true, integration: match.integration, config: match.config };
+}
+
+async function verifyTelegram(request: FastifyRequest): Promise<Verification> {
+  // Bots registered before integration-keyed URLs still call /webhooks/telegram/<bot token>
+  const { integrationId } = request.params as { integrationId: string };
+
+  const match = await resolveIntegration('TELEGRAM', request, config => config.botToken === integrationId);
+  if (!match) {
+    return { valid: false, reason: 'unknown_integration' };
+  }
+
+  const secret = getHeader(request, 'x-telegram-bot-api-secret-token');
+  if (!secret) {
+    return { valid: false, reason: 'missing_signature', integration: match.integration };
+  }
+
+  if (!match.config.webhookSecret) {
+    return { valid: false, reason: 'missing_secret', integration: match.integration };
+  }
+
+  if (!safeEqual(secret, match.config.webhookSecret)) {
+    return { valid: false, reason: 'invalid_signature', integration: match.integration };
+  }
+
+  return { valid: true, integration: match.integration, config: match.config };
+}
+
+// SendGrid signed event webhook: base64 ECDSA (P-256, SHA-256) over timestamp + raw body
+export function verifySendGridSignature(rawBody: Buffer, timestamp: string, signature: string, publicKey: string) {
+  try {
+    const key = createPublicKey({ key: Buffer.from(publicKey, 'base64'), format: 'der', type: 'spki' });
+    return createVerify('sha256')
+      .update(Buffer.concat([Buffer.from(timestamp, 'utf8'), rawBody]))
+      .verify(key, signature, 'base64');
+  } catch {
+    return false;
+  }
+}
+
+// Mailgun: hex HMAC-SHA256 of timestamp + token, keyed with the webhook signing key
+export function verifyMailgunSignature(signature: { timestamp?: string; token?: string; signature?: string }, signingKey: string) {
+  if (!signature?.timestamp || !signature.token || !signature.signature) {
+    return false;
+  }
+
+  const expected = createHmac('sha256', signingKey).update(signature.timestamp + signature.token).digest('hex');
+  return safeEqual(signature.signature, expected);
+}
+
+const SNS_CERT_HOST = /^sns\.[a-z0-9-]+\.amazonaws\.com(\.cn)?$/;
+const snsCertificates = new Map<string, string>();
+
+// SNS message signing: the listed fields, in order, signed with the certificate AWS hosts
+export async function verifySnsSignature(envelope: any) {
+  let certUrl: URL;
+  try {
+    certUrl = new URL(envelope.SigningCertURL);
+  } catch {
+    return false;
+  }
+
+  if (certUrl.protocol !== 'https:' || !SNS_CERT_HOST.test(certUrl.hostname) || !envelope.Signature) {
+    return false;
+  }
+
+  const fields = envelope.Type === 'Notification'
+    ? ['Message', 'MessageId', 'Subject', 'Timestamp', 'TopicArn', 'Type']
+    : ['Message', 'MessageId', 'SubscribeURL', 'Timestamp', 'Token', 'TopicArn', 'Type'];
+  const stringToSign = fields
+    .filter(field => envelope[field] !== undefined && envelope[field] !== null)
+    .map(field => `${field}\n${envelope[field]}\n`)
+    .join('');
+
+  try {
+    let certificate = snsCertificates.get(certUrl.toString());
+    if (!certificate) {
+      const axios = (await import('axios')).default;
+      certificate = (await axios.get(certUrl.toString(), { responseType: 'text' })).data as string;
+      snsCertificates.set(certUrl.toString(), certificate);
+    }
+
+    return createVerify(envelope.SignatureVersion === '2' ? 'RSA-SHA256' : 'RSA-SHA1')
+      .update(stringToSign, 'utf8')
+      .verify(certificate, envelope.Signature, 'base64');
+  } catch {
+    return false;
+  }
+}
+
+// Email webhooks are only accepted on integration-keyed URLs (/webhooks/email/:provider/:integrationId)
+async function verifyEmail(request: FastifyRequest): Promise<Verification> {
+  const { provider } = request.params as { provider: string };
+  const match = await resolveIntegration('EMAIL', request, null);
+  if (!match) {
+    return { valid: false, reason: 'unknown_integration' };
+  }
+
+  const { integration, config } = match;
+  const body = request.body as any;
+  const invalid = (reason: WebhookFailureReason): Verification => ({ valid: false, reason, integration });
+
+  switch (provider) {
+    case 'sendgrid': {
+      const signature = getHeader(request, 'x-twilio-email-event-webhook-signature');
+      const timestamp = getHeader(request, 'x-twilio-email-event-webhook-timestamp');
+      if (!signature || !timestamp) return invalid('missing_signature');
+      if (!config.sendgridVerificationKey) return invalid('missing_secret');
+      if (!verifySendGridSignature(getRawBody(request), timestamp, signature, config.sendgridVerificationKey)) {
+        return invalid('invalid_signature');
+      }
+      break;
+    }
+
+    case 'mailgun':
+      if (!body?.signature) return invalid('missing_signature');
+      if (!config.mailgunSigningKey) return invalid('missing_secret');
+      if (!verifyMailgunSignature(body.signature, config.mailgunSigningKey)) return invalid('invalid_signature');
+      break;
+
+    case 'ses':
+      if (!body?.Signature) return invalid('missing_signature');
+      // Any AWS account can sign SNS messages, so the topic must be the one configured
+      if (!config.sesTopicArn) return invalid('missing_secret');
+      if (body.TopicArn !== config.sesTopicArn || !(await verifySnsSignature(body))) {
+        return invalid('invalid_signature');
+      }
+      break;
+
+    case 'postmark': {
+      const authorization = getHeader(request, 'authorization');
+      if (!authorization?.startsWith('Basic ')) return invalid('missing_signature');
+      if (!config.postmarkWebhookUser || !config.postmarkWebhookPassword) return invalid('missing_secret');
+      const expected = Buffer.from(`${config.postmarkWebhookUser}:${config.postmarkWebhookPassword}`).toString('base64');
+      if (!safeEqual(authorization.slice(6), expected)) return invalid('invalid_signature');
+      break;
+    }
+
+    default:
+      return invalid('unknown_integration');
+  }
+
+  return { valid: true, integration, config };
+}
+
+/**
+ * Verifies an inbound provider webhook against the secrets of the integration it
+ * belongs to. Returns that integration and its decrypted config, or null after
+ * recording the failure.
+ */
+export async function verifyWebhookRequest(channel: 'WHATSAPP' | 'SMS' | 'TELEGRAM' | 'EMAIL', request: FastifyRequest) {
+  const result = channel === 'WHATSAPP' ? await verifyWhatsApp(request)
+    : channel === 'SMS' ? await verifyTwilio(request)
+    : channel === 'EMAIL' ? await verifyEmail(request)
+    : await verifyTelegram(request);
+
+  if (result.valid) {
+    return { integration: result.integration, config: result.config };
+  }
+
+  console.warn(`[Webhook] Rejected ${channel} webhook from ${request.ip}: ${result.reason}`);
+
+  try {
+    await prisma.webhookVerificationFailure.create({
+      data: {
+        tenantId: result.integration?.tenantId,
+        integrationId: result.integration?.id,
+        channel,
+        reason: result.reason,
+        // Route pattern only; legacy Telegram paths carry the bot token
+        path: request.routeOptions.url || request.url,
+        ipAddress: request.ip,
+        userAgent: getHeader(request, 'user-agent')?.slice(0, 500),
+      },
+    });
+  } catch (error: any) {
+    console.error('[Webhook] Could not record verification failure:', error.message);
+  }
+
+  return null;
+}
+
+export async function getWebhookVerificationFailures(options: {
+  tenantId?: string;
+  channel?: Channel;
+  reason?: string;
+  page?: number;
+  limit?: number;
+}) {
+  const { tenantId, channel, reason, page = 1, limit = 50 } = options;
+
+  const where: any = {};
+  if (tenantId) where.tenantId = tenantId;
+  if (channel) where.channel = channel;
+  if (reason) where.reason = reason;
+
+  const [failures, total] = await Promise.all([
+    prisma.webhookVerificationFailure.findMany({
+      where,
+      skip: (page - 1) * limit,
+      take: limit,
+      orderBy: { createdAt: 'desc' },
+      include: {
+        tenant: {
+          select: { name: true },
+        },
+      },
+    }),
+    prisma.webhookVerificationFailure.count({ where }),
+  ]);
+
+  return {
+    failures,
+    pagination: {
+      page,
+      limit,
+      total,
+      totalPages: Math.ceil(total / limit),
+    },
+  };
+}
@@ -0,0 +1,216 @@
+import { prisma } from '../../lib/prisma';
+import { decrypt } from '../../lib/crypto';
+import { assertValidTemplate } from '../../lib/template-renderer';
+import axios from 'axios';
+import { z } from 'zod';
+
+const GRAPH_API_URL = 'https://graph.facebook.com/v18.0';
+const MAX_SYNC_PAGES = 20;
+
+// Each value is a message template ({first_name|there}, {custom.order_id}) rendered per contact
+export const whatsappTemplateParamsSchema = z.object({
+  header: z.array(z.string()).default([]),
+  headerMediaUrl: z.string().url().optional(), // IMAGE/VIDEO/DOCUMENT headers
+  body: z.array(z.string()).default([]),
+  buttons: z.array(z.object({
+    index: z.number().int().min(0),
+    params: z.array(z.string()),
+  })).default([]),
+});
+
+export type WhatsAppTemplateParams = z.infer<typeof whatsappTemplateParamsSchema>;
+
+export type WhatsAppTemplatePayload = {
+  name: string;
+  language: string;
+  components: any[];
+};
+
+type MetaComponent = {
+  type: 'HEADER' | 'BODY' | 'FOOTER' | 'BUTTONS';
+  format?: 'TEXT' | 'IMAGE' | 'VIDEO' | 'DOCUMENT' | 'LOCATION';
+  text?: string;
+  buttons?: Array<{ type: string; text?: string; url?: string }>;
+};
+
+// Highest {{n}} placeholder in a Meta template text
+function countPlaceholders(text?: string): number {
+  const matches = text?.match(/\{\{(\d+)\}\}/g) || [];
+  return matches.reduce((max, m) => Math.max(max, parseInt(m.slice(2, -2), 10)), 0);
+}
+
+async function getWhatsAppIntegration(userId: string, integrationId: string) {
+  const integration = await prisma.integration.findFirst({
+    where: { id: integrationId, userId, channel: 'WHATSAPP' },
+  });
+
+  if (!integration) {
+    throw new Error('WhatsApp integration not found');
+  }
+
+  return integration;
+}
+
+// Pulls every template of the business account; templates gone from Meta are marked DELETED
+export async function syncWhatsAppTemplates(userId: string, integrationId: string) {
+  const integration = await getWhatsAppIntegration(userId, integrationId);
+  const { accessToken, businessAccountId } = JSON.parse(decrypt(integration.config));
+
+  if (!businessAccountId) {
+    throw new Error('businessAccountId is required in the WhatsApp integration config to sync templates');
+  }
+
+  const templates: any[] = [];
+  let url: string | undefined = `${GRAPH_API_URL}/${businessAccountId}/message_templates?limit=100`;
+
+  try {
+    for (let page = 0; url && page < MAX_SYNC_PAGES; page++) {
+      const response: { data: { data: any[]; paging?: { next?: string } } } = await axios.get(url, {
+        headers: { Authorization: `Bearer ${accessToken}` },
+      });
+      templates.push(...response.data.data);
+      url = response.data.paging?.next;
+    }
+  } catch (error: any) {
+    throw new Error(`Failed to fetch WhatsApp templates: ${error.response?.data?.error?.message || error.message}`);
+  }
+
+  const syncedAt = new Date();
+
+  for (const template of templates) {
+    const data = {
+      externalId: template.id,
+      category: template.category,
+      status: template.status,
+      components: JSON.stringify(template.components || []),
+      syncedAt,
+    };
+
+    await prisma.whatsAppTemplate.upsert({
+      where: {
+        integrationId_name_language: {
+          integrationId,
+          name: template.name,
+          language: template.language,
+        },
+      },
+      create: {
+        tenantId: integration.tenantId,
+        integrationId,
+        name: template.name,
+        language: template.language,
+        ...data,
+      },
+      update: data,
+    });
+  }
+
+  const { count: removed } = await prisma.whatsAppTemplate.updateMany({
+    where: { integrationId, syncedAt: { lt: syncedAt }, status: { not: 'DELETED' } },
+    data: { status: 'DELETED' },
+  });
+
+  return { synced: templates.length, removed };
+}
+
+export async function getWhatsAppTemplates(userId: string, integrationId: string, options: { status?: string } = {}) {
+  await getWhatsAppIntegration(userId, integrationId);
+
+  const templates = await prisma.whatsAppTemplate.findMany({
+    where: {
+      integrationId,
+      ...(options.status ? { status: options.status } : {}),
+    },
+    orderBy: [{ name: 'asc' }, { language: 'asc' }],
+  });
+
+  return templates.map(template => ({
+    ...template,
+    components: JSON.parse(template.components),
+  }));
+}
+
+// Checks a campaign's template choice: approved, owned by the tenant and every placeholder mapped
+export async function validateWhatsAppTemplateParams(
+  tenantId: string,
+  templateId: string,
+  params: WhatsAppTemplateParams,
+) {
+  const template = await prisma.whatsAppTemplate.findFirst({
+    where: { id: templateId, tenantId },
+  });
+
+  if (!template) {
+    throw new Error('WhatsApp template not found');
+  }
+
+  if (template.status !== 'APPROVED') {
+    throw new Error(`WhatsApp template "${template.name}" is ${template.status.toLowerCase()}, only approved templates can be sent`);
+  }
+
+  const components: MetaComponent[] = JSON.parse(template.components);
+  const header = components.find(c => c.type === 'HEADER');
+  const body = components.find(c => c.type === 'BODY');
+  const buttons = components.find(c => c.type === 'BUTTONS')?.buttons || [];
+
+  const expectParams = (label: string, expected: number, given: string[]) => {
+    if (given.length !== expected) {
+      throw new Error(`WhatsApp template "${template.name}" expects ${expected} ${label} parameter(s), got ${given.length}`);
+    }
+    given.forEach(value => assertValidTemplate(value));
+  };
+
+  expectParams('header', header?.format === 'TEXT' ? countPlaceholders(header.text) : 0, params.header);
+  expectParams('body', countPlaceholders(body?.text), params.body);
+
+  if (header && header.format && ['IMAGE', 'VIDEO', 'DOCUMENT'].includes(header.format) && !params.headerMediaUrl) {
+    throw new Error(`WhatsApp template "${template.name}" needs headerMediaUrl for its ${header.format.toLowerCase()} header`);
+  }
+
+  buttons.forEach((button, index) => {
+    const given = params.buttons.find(b => b.index === index)?.params || [];
+    expectParams(`button ${index}`, button.type === 'URL' ? countPlaceholders(button.url) : 0, given);
+  });
+
+  return template;
+}
+
+// Builds the `type: 'template'` payload; `render` fills each parameter for the recipient
+export function buildWhatsAppTemplatePayload(
+  template: { name: string; language: string; components: string },
+  params: WhatsAppTemplateParams,
+  render: (value: string) => string,
+): WhatsAppTemplatePayload {
+  const components: MetaComponent[] = JSON.parse(template.components);
+  const header = components.find(c => c.type === 'HEADER');
+  const buttons = components.find(c => c.type === 'BUTTONS')?.buttons || [];
+  const textParam = (value: string) => ({ type: 'text', text: render(value) });
+  const payload: any[] = [];
+
+  if (header?.format && ['IMAGE', 'VIDEO', 'DOCUMENT'].includes(header.format) && params.headerMediaUrl) {
+    const mediaType = header.format.toLowerCase();
+    payload.push({
+      type: 'header',
+      parameters: [{ type: mediaType, [mediaType]: { link: params.headerMediaUrl } }],
+    });
+  } else if (params.header.length > 0) {
+    payload.push({ type: 'header', parameters: params.header.map(textParam) });
+  }
+
+  if (params.body.length > 0) {
+    payload.push({ type: 'body', parameters: params.body.map(textParam) });
+  }
+
+  for (const button of params.buttons) {
+    if (buttons[button.index]?.type === 'URL' && button.params.length > 0) {
+      payload.push({
+        type: 'button',
+        sub_type: 'url',
+        index: String(button.index),
+        parameters: button.params.map(textParam),
+      });
+    }
+  }
+
+  return { name: template.name, language: template.language, components: payload };
+}
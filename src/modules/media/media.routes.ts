@@ -0,0 +1,115 @@
+import { FastifyInstance } from 'fastify';
+import {
+  uploadMedia,
+  getMediaFiles,
+  getMediaFile,
+  deleteMediaFile,
+  readMediaFile,
+} from './media.service';
+import { STORAGE_KEY_REGEX } from '../../lib/storage';
+
+export async function mediaRoutes(fastify: FastifyInstance) {
+  // Upload an attachment (multipart, field "file")
+  fastify.post('/', async (request, reply) => {
+    const userId = (request as any).user?.id;
+
+    if (!userId) {
+      return reply.code(401).send({ success: false, error: 'Unauthorized' });
+    }
+
+    try {
+      const data = await request.file();
+
+      if (!data) {
+        return reply.code(400).send({ success: false, error: 'No file provided' });
+      }
+
+      const media = await uploadMedia(userId, {
+        filename: data.filename,
+        mimeType: data.mimetype,
+        buffer: await data.toBuffer(),
+      });
+
+      return reply.code(201).send({ success: true, media });
+    } catch (error: any) {
+      return reply.code(400).send({ success: false, error: error.message });
+    }
+  });
+
+  // List uploaded media
+  fastify.get('/', async (request, reply) => {
+    const userId = (request as any).user?.id;
+
+    if (!userId) {
+      return reply.code(401).send({ success: false, error: 'Unauthorized' });
+    }
+
+    const { page, limit } = request.query as { page?: string; limit?: string };
+
+    try {
+      const result = await getMediaFiles(userId, {
+        page: page ? parseInt(page) : undefined,
+        limit: limit ? parseInt(limit) : undefined,
+      });
+      return reply.send({ success: true, ...result });
+    } catch (error: any) {
+      return reply.code(400).send({ success: false, error: error.message });
+    }
+  });
+
+  // Public file download for the local storage driver
+  fastify.get('/files/:key', async (request, reply) => {
+    const { key } = request.params as { key: string };
+
+    if (!STORAGE_KEY_REGEX.test(key)) {
+      return reply.code(404).send({ success: false, error: 'Not found' });
+    }
+
+    try {
+      const { media, body } = await readMediaFile(key);
+      return reply
+        .header('Content-Type', media.mimeType)
+        .header('Content-Disposition', `inline; filename="${media.filename.replace(/"/g, '')}"`)
+        .header('Cache-Control', 'public, max-age=86400')
+        .send(body);
+    } catch (error: any) {
+      return reply.code(404).send({ success: false, error: 'Not found' });
+    }
+  });
+
+  // Get single media file
+  fastify.get('/:id', async (request, reply) => {
+    const userId = (request as any).user?.id;
+
+    if (!userId) {
+      return reply.code(401).send({ success: false, error: 'Unauthorized' });
+    }
+
+    const { id } = request.params as { id: string };
+
+    try {
+      const media = await getMediaFile(userId, id);
+      return reply.send({ success: true, media });
+    } catch (error: any) {
+      return reply.code(400).send({ success: false, error: error.message });
+    }
+  });
+
+  // Delete media file
+  fastify.delete('/:id', async (request, reply) => {
+    const userId = (request as any).user?.id;
+
+    if (!userId) {
+      return reply.code(401).send({ success: false, error: 'Unauthorized' });
+    }
+
+    const { id } = request.params as { id: string };
+
+    try {
+      const result = await deleteMediaFile(userId, id);
+      return reply.send(result);
+    } catch (error: any) {
+      return reply.code(400).send({ success: false, error: error.message });
+    }
+  });
+}
@@ -0,0 +1,216 @@
+import { prisma } from '../../lib/prisma';
+import { getStorage } from '../../lib/storage';
+import { randomBytes } from 'crypto';
+import path from 'path';
+
+export type MediaKind = 'image' | 'video' | 'audio' | 'document';
+
+export type MediaAttachment = {
+  url: string;
+  filename: string;
+  mimeType: string;
+  size: number;
+  storageKey: string;
+};
+
+const MB = 1024 * 1024;
+
+// Matches the multipart plugin limit in app.ts
+export const MAX_UPLOAD_SIZE = 10 * MB;
+
+const IMAGE_TYPES = ['image/jpeg', 'image/png', 'image/gif', 'image/webp'];
+const VIDEO_TYPES = ['video/mp4', 'video/3gpp'];
+const AUDIO_TYPES = ['audio/mpeg', 'audio/mp4', 'audio/aac', 'audio/ogg', 'audio/amr'];
+const DOCUMENT_TYPES = [
+  'application/pdf',
+  'application/msword',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  'application/vnd.ms-excel',
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  'application/vnd.ms-powerpoint',
+  'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+  'text/plain',
+  'text/csv',
+];
+
+export const ALLOWED_MEDIA_TYPES = [...IMAGE_TYPES, ...VIDEO_TYPES, ...AUDIO_TYPES, ...DOCUMENT_TYPES];
+
+type MediaRule = { types: string[]; maxSize: number };
+
+// What each provider accepts; a missing kind is not supported on that channel
+export const CHANNEL_MEDIA_LIMITS: Record<string, Partial<Record<MediaKind, MediaRule>>> = {
+  WHATSAPP: {
+    image: { types: ['image/jpeg', 'image/png'], maxSize: 5 * MB },
+    video: { types: VIDEO_TYPES, maxSize: 16 * MB },
+    audio: { types: AUDIO_TYPES, maxSize: 16 * MB },
+    document: { types: DOCUMENT_TYPES, maxSize: 100 * MB },
+  },
+  // Sent by URL: photos up to 5MB, everything else as a document up to 20MB
+  TELEGRAM: {
+    image: { types: IMAGE_TYPES, maxSize: 5 * MB },
+    video: { types: VIDEO_TYPES, maxSize: 20 * MB },
+    audio: { types: AUDIO_TYPES, maxSize: 20 * MB },
+    document: { types: DOCUMENT_TYPES, maxSize: 20 * MB },
+  },
+  // Twilio MMS (US/Canada); carriers only reliably render images
+  SMS: {
+    image: { types: ['image/jpeg', 'image/png', 'image/gif'], maxSize: 5 * MB },
+  },
+  EMAIL: {
+    image: { types: IMAGE_TYPES, maxSize: 10 * MB },
+    video: { types: VIDEO_TYPES, maxSize: 10 * MB },
+    audio: { types: AUDIO_TYPES, maxSize: 10 * MB },
+    document: { types: DOCUMENT_TYPES, maxSize: 10 * MB },
+  },
+};
+
+export function getMediaKind(mimeType: string): MediaKind {
+  if (mimeType.startsWith('image/')) return 'image';
+  if (mimeType.startsWith('video/')) return 'video';
+  if (mimeType.startsWith('audio/')) return 'audio';
+  return 'document';
+}
+
+// Throws when a provider would reject the attachment
+export function validateMediaForChannel(channel: string, media: { mimeType: string; size: number }) {
+  const kind = getMediaKind(media.mimeType);
+  const rule = CHANNEL_MEDIA_LIMITS[channel]?.[kind];
+
+  if (!rule || !rule.types.includes(media.mimeType)) {
+    throw new Error(`${media.mimeType} attachments are not supported on ${channel}`);
+  }
+
+  if (media.size > rule.maxSize) {
+    throw new Error(`Attachment is too large for ${channel} (max ${rule.maxSize / MB}MB for ${kind} files)`);
+  }
+}
+
+// Loads a tenant's media file and checks it against every channel it may be sent on
+export async function assertMediaForChannels(tenantId: string, mediaId: string, channels: string[]) {
+  const media = await prisma.mediaFile.findFirst({
+    where: { id: mediaId, tenantId },
+  });
+
+  if (!media) {
+    throw new Error('Media file not found');
+  }
+
+  for (const channel of channels) {
+    validateMediaForChannel(channel, media);
+  }
+
+  return media;
+}
+
+export async function uploadMedia(userId: string, file: {
+  filename: string;
+  mimeType: string;
+  buffer: Buffer;
+}) {
+  const user = await prisma.user.findUnique({ where: { id: userId } });
+  if (!user) {
+    throw new Error('User not found');
+  }
+
+  if (!ALLOWED_MEDIA_TYPES.includes(file.mimeType)) {
+    throw new Error(`Unsupported file type: ${file.mimeType}`);
+  }
+
+  if (file.buffer.length > MAX_UPLOAD_SIZE) {
+    throw new Error(`File is too large (max ${MAX_UPLOAD_SIZE / MB}MB)`);
+  }
+
+  const extension = path.extname(file.filename).toLowerCase();
+  const storageKey = randomBytes(16).toString('hex') + (/^\.[a-z0-9]+$/.test(extension) ? extension : '');
+  const storage = getStorage();
+
+  await storage.put(storageKey, file.buffer, file.mimeType);
+
+  return prisma.mediaFile.create({
+    data: {
+      tenantId: user.tenantId,
+      userId,
+      filename: file.filename,
+      mimeType: file.mimeType,
+      size: file.buffer.length,
+      storageKey,
+      url: storage.getUrl(storageKey),
+    },
+  });
+}
+
+export async function getMediaFiles(userId: string, options: { page?: number; limit?: number } = {}) {
+  const { page = 1, limit = 20 } = options;
+
+  const user = await prisma.user.findUnique({ where: { id: userId } });
+  if (!user) {
+    throw new Error('User not found');
+  }
+
+  const where = { tenantId: user.tenantId, userId };
+
+  const [files, total] = await Promise.all([
+    prisma.mediaFile.findMany({
+      where,
+      orderBy: { createdAt: 'desc' },
+      skip: (page - 1) * limit,
+      take: limit,
+    }),
+    prisma.mediaFile.count({ where }),
+  ]);
+
+  return {
+    files,
+    pagination: {
+      page,
+      limit,
+      total,
+      totalPages: Math.ceil(total / limit),
+    },
+  };
+}
+
+export async function getMediaFile(userId: string, mediaId: string) {
+  const user = await prisma.user.findUnique({ where: { id: userId } });
+  if (!user) {
+    throw new Error('User not found');
+  }
+
+  const media = await prisma.mediaFile.findFirst({
+    where: { id: mediaId, tenantId: user.tenantId, userId },
+  });
+
+  if (!media) {
+    throw new Error('Media file not found');
+  }
+
+  return media;
+}
+
+export async function deleteMediaFile(userId: string, mediaId: string) {
+  const media = await getMediaFile(userId, mediaId);
+
+  const activeCampaigns = await prisma.campaign.count({
+    where: { mediaId, status: { in: ['SCHEDULED', 'RUNNING', 'PAUSED'] } },
+  });
+
+  if (activeCampaigns > 0) {
+    throw new Error('Media file is attached to an active campaign');
+  }
+
+  await getStorage().delete(media.storageKey);
+  await prisma.mediaFile.delete({ where: { id: media.id } });
+
+  return { success: true };
+}
+
+// Serves files for the local storage driver (providers fetch them without auth)
+export async function readMediaFile(storageKey: string) {
+  const media = await prisma.mediaFile.findUnique({ where: { storageKey } });
+
+  if (!media) {
+    throw new Error('Media file not found');
+  }
+
+  return { media, body: await getStorage().get(storageKey) };
+}
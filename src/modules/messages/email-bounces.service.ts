@@ -0,0 +1,345 @@
+import { prisma } from '../../lib/prisma';
+import { decrypt } from '../../lib/crypto';
+import { ImapFlow } from 'imapflow';
+import { MESSAGE_REF_HEADER } from '../../lib/email-tracking';
+import { BounceType } from '@prisma/client';
+import { UNSUBSCRIBE_EVENT } from '../campaigns/campaign-report.service';
+import { addSuppressions } from '../suppressions/suppressions.service';
+import { setContactStatus } from '../contacts/contact-status.service';
+
+export const EMAIL_BOUNCED_EVENT = 'email_bounced';
+
+// Soft bounces in a row before the address is treated as dead
+export const SOFT_BOUNCE_THRESHOLD = 3;
+
+const MAX_MESSAGES_PER_POLL = 200;
+
+export type EmailBounce = {
+  email: string;
+  type: BounceType;
+  messageRef?: string; // Our message id (from MESSAGE_REF_HEADER)
+  smtpMessageId?: string; // Original Message-ID header, matched against Message.externalId
+  reason?: string;
+};
+
+export const EMAIL_BOUNCE_PROVIDERS = ['sendgrid', 'mailgun', 'ses', 'postmark'] as const;
+
+export type EmailBounceProvider = typeof EMAIL_BOUNCE_PROVIDERS[number];
+
+// ==================== PARSING ====================
+
+/**
+ * Extracts failed recipients from a delivery status notification (RFC 3464).
+ * Delayed notices are ignored; the MTA is still retrying those.
+ */
+export function parseDsn(raw: string): EmailBounce[] {
+  const source = raw.replace(/\r\n/g, '\n');
+
+  if (!/report-type\s*=\s*"?delivery-status/i.test(source) && !/^Action:\s*failed/im.test(source)) {
+    return [];
+  }
+
+  const messageRef = source.match(new RegExp(`^${MESSAGE_REF_HEADER}:\\s*(\\S+)`, 'im'))?.[1];
+  // The DSN's own Message-ID comes first; the returned original headers come last
+  const messageIds = [...source.matchAll(/^Message-ID:\s*(<[^>\n]+>)/gim)].map(m => m[1]);
+  const smtpMessageId = messageIds.length > 1 ? messageIds[messageIds.length - 1] : undefined;
+
+  const bounces: EmailBounce[] = [];
+
+  for (const block of source.split(/\n\s*\n/)) {
+    const recipient = block.match(/^Final-Recipient:\s*rfc822;\s*<?([^\s>]+)>?/im)?.[1]
+      || block.match(/^Original-Recipient:\s*rfc822;\s*<?([^\s>]+)>?/im)?.[1];
+    const action = block.match(/^Action:\s*(\w+)/im)?.[1]?.toLowerCase();
+
+    if (!recipient || action !== 'failed') {
+      continue;
+    }
+
+    const status = block.match(/^Status:\s*(\d\.\d{1,3}\.\d{1,3})/im)?.[1];
+    const diagnostic = block.match(/^Diagnostic-Code:\s*(.+(?:\n[ \t].+)*)/im)?.[1]?.replace(/\s+/g, ' ').trim();
+
+    bounces.push({
+      email: recipient.toLowerCase(),
+      type: status?.startsWith('4') ? 'SOFT' : 'HARD',
+      messageRef,
+      smtpMessageId,
+      reason: [status, diagnostic].filter(Boolean).join(' ') || undefined,
+    });
+  }
+
+  return bounces;
+}
+
+// Normalizes bounce/complaint webhooks from ESPs that relay our SMTP traffic
+export function parseProviderBounces(provider: EmailBounceProvider, body: any): EmailBounce[] {
+  const bounces: EmailBounce[] = [];
+
+  switch (provider) {
+    case 'sendgrid':
+      for (const event of Array.isArray(body) ? body : []) {
+        if (event.event === 'bounce') {
+          bounces.push({
+            email: event.email,
+            type: event.type === 'blocked' ? 'SOFT' : 'HARD',
+            smtpMessageId: event['smtp-id'],
+            reason: [event.status, event.reason].filter(Boolean).join(' ') || undefined,
+          });
+        } else if (event.event === 'spamreport') {
+          bounces.push({ email: event.email, type: 'COMPLAINT', smtpMessageId: event['smtp-id'] });
+        }
+      }
+      break;
+
+    case 'mailgun': {
+      const event = body?.['event-data'];
+      const messageId = event?.message?.headers?.['message-id'];
+      const smtpMessageId = messageId ? `<${messageId}>` : undefined;
+
+      if (event?.event === 'failed') {
+        bounces.push({
+          email: event.recipient,
+          type: event.severity === 'permanent' ? 'HARD' : 'SOFT',
+          smtpMessageId,
+          reason: event['delivery-status']?.description || event['delivery-status']?.message || event.reason,
+        });
+      } else if (event?.event === 'complained') {
+        bounces.push({ email: event.recipient, type: 'COMPLAINT', smtpMessageId });
+      }
+      break;
+    }
+
+    case 'ses': {
+      // Delivered through SNS, often as text/plain
+      const envelope = typeof body === 'string' ? JSON.parse(body) : body;
+      if (envelope?.Type !== 'Notification') {
+        break;
+      }
+
+      const notification = JSON.parse(envelope.Message);
+      const smtpMessageId = notification.mail?.commonHeaders?.messageId;
+
+      if (notification.notificationType === 'Bounce') {
+        for (const recipient of notification.bounce?.bouncedRecipients || []) {
+          bounces.push({
+            email: recipient.emailAddress,
+            type: notification.bounce.bounceType === 'Permanent' ? 'HARD' : 'SOFT',
+            smtpMessageId,
+            reason: recipient.diagnosticCode || notification.bounce.bounceSubType,
+          });
+        }
+      } else if (notification.notificationType === 'Complaint') {
+        for (const recipient of notification.complaint?.complainedRecipients || []) {
+          bounces.push({ email: recipient.emailAddress, type: 'COMPLAINT', smtpMessageId });
+        }
+      }
+      break;
+    }
+
+    case 'postmark':
+      if (body?.RecordType === 'Bounce' && ['HardBounce', 'SoftBounce', 'Transient'].includes(body.Type)) {
+        bounces.push({
+          email: body.Email,
+          type: body.Type === 'HardBounce' ? 'HARD' : 'SOFT',
+          reason: body.Description || body.Details,
+        });
+      } else if (body?.RecordType === 'SpamComplaint') {
+        bounces.push({ email: body.Email, type: 'COMPLAINT' });
+      }
+      break;
+  }
+
+  return bounces.filter(bounce => bounce.email);
+}
+
+// ==================== PROCESSING ====================
+
+// Most specific match first: our header, the SMTP Message-ID, then the latest email to the address.
+// Always within the tenant whose integration reported the bounce.
+async function findBouncedMessage(bounce: EmailBounce, tenantId: string) {
+  const include = { contact: true, campaign: { select: { userId: true } } };
+  const email = bounce.email.toLowerCase();
+
+  if (bounce.messageRef) {
+    const message = await prisma.message.findFirst({
+      where: { id: bounce.messageRef, channel: 'EMAIL', tenantId },
+      include,
+    });
+    if (message) return message;
+  }
+
+  if (bounce.smtpMessageId) {
+    const bare = bounce.smtpMessageId.replace(/^<|>$/g, '');
+    const message = await prisma.message.findFirst({
+      where: { externalId: { in: [`<${bare}>`, bare] }, channel: 'EMAIL', tenantId },
+      include,
+    });
+    if (message) return message;
+  }
+
+  return prisma.message.findFirst({
+    where: {
+      channel: 'EMAIL',
+      status: { in: ['SENT', 'DELIVERED', 'READ'] },
+      contact: { email: { equals: email, mode: 'insensitive' } },
+      tenantId,
+    },
+    orderBy: { sentAt: 'desc' },
+    include,
+  });
+}
+
+export async function processEmailBounce(bounce: EmailBounce, tenantId: string) {
+  const message = await findBouncedMessage(bounce, tenantId);
+
+  if (!message) {
+    console.log(`[Bounces] No sent email found for ${bounce.email}, ignoring ${bounce.type} bounce`);
+    return { matched: false };
+  }
+
+  const contact = message.contact;
+
+  if (bounce.type === 'COMPLAINT') {
+    // The email was delivered; the recipient reported it as spam
+    await prisma.message.update({
+      where: { id: message.id },
+      data: { bounceType: 'COMPLAINT' },
+    });
+
+    if (await setContactStatus(contact, 'UNSUBSCRIBED', { source: 'complaint', channel: 'EMAIL' })) {
+      await prisma.analyticsEvent.create({
+        data: {
+          tenantId: contact.tenantId,
+          userId: contact.userId,
+          eventType: UNSUBSCRIBE_EVENT,
+          contactId: contact.id,
+          campaignId: message.campaignId,
+          channel: 'EMAIL',
+          eventData: JSON.stringify({ reason: 'complaint' }),
+        },
+      });
+    }
+
+    await addSuppressions(message.tenantId, [{ type: 'EMAIL', value: bounce.email }], 'COMPLAINT');
+  } else {
+    await prisma.message.update({
+      where: { id: message.id },
+      data: {
+        status: 'FAILED',
+        failedAt: new Date(),
+        bounceType: bounce.type,
+        errorMessage: bounce.reason || `${bounce.type.toLowerCase()} bounce`,
+        errorType: bounce.type === 'HARD' ? 'PERMANENT' : 'TRANSIENT',
+      },
+    });
+
+    const softBounceCount = bounce.type === 'SOFT' ? contact.softBounceCount + 1 : contact.softBounceCount;
+    const suppress = bounce.type === 'HARD' || softBounceCount >= SOFT_BOUNCE_THRESHOLD;
+
+    await prisma.contact.update({
+      where: { id: contact.id },
+      data: { softBounceCount },
+    });
+
+    // An unsubscribe is kept; it is the stronger signal
+    if (suppress && contact.status !== 'UNSUBSCRIBED') {
+      await setContactStatus(contact, 'BOUNCED', {
+        source: 'bounce',
+        channel: 'EMAIL',
+        detail: bounce.reason || `${bounce.type.toLowerCase()} bounce`,
+      });
+    }
+
+    if (suppress) {
+      await addSuppressions(message.tenantId, [{ type: 'EMAIL', value: bounce.email }], 'BOUNCE', bounce.reason);
+      console.log(`[Bounces] Contact ${contact.id} suppressed after ${bounce.type.toLowerCase()} bounce`);
+    }
+  }
+
+  await prisma.analyticsEvent.create({
+    data: {
+      tenantId: message.tenantId,
+      userId: message.campaign.userId,
+      eventType: EMAIL_BOUNCED_EVENT,
+      contactId: contact.id,
+      campaignId: message.campaignId,
+      channel: 'EMAIL',
+      eventData: JSON.stringify({ messageId: message.id, type: bounce.type, reason: bounce.reason }),
+    },
+  });
+
+  return { matched: true, messageId: message.id };
+}
+
+// ==================== BOUNCE MAILBOX ====================
+
+async function pollBounceMailbox(tenantId: string, config: any) {
+  const client = new ImapFlow({
+    host: config.imapHost,
+    port: parseInt(config.imapPort || '993'),
+    secure: config.imapSecure ?? true,
+    auth: {
+      user: config.imapUser || config.user,
+      pass: config.imapPass || config.pass,
+    },
+    logger: false,
+  });
+
+  await client.connect();
+
+  const sources: string[] = [];
+  const lock = await client.getMailboxLock(config.imapMailbox || 'INBOX');
+
+  try {
+    const uids = await client.search({ seen: false }, { uid: true });
+
+    if (uids && uids.length > 0) {
+      const batch = uids.slice(0, MAX_MESSAGES_PER_POLL);
+
+      for await (const mail of client.fetch(batch, { source: true }, { uid: true })) {
+        if (mail.source) {
+          sources.push(mail.source.toString());
+        }
+      }
+
+      // Everything fetched is marked read so non-DSN mail isn't parsed again
+      await client.messageFlagsAdd(batch, ['\\Seen'], { uid: true });
+    }
+  } finally {
+    lock.release();
+    await client.logout();
+  }
+
+  let processed = 0;
+  for (const source of sources) {
+    for (const bounce of parseDsn(source)) {
+      await processEmailBounce(bounce, tenantId);
+      processed++;
+    }
+  }
+
+  return processed;
+}
+
+// Scheduled job: reads DSNs from every email integration that has a bounce mailbox
+export async function pollBounceMailboxes() {
+  const integrations = await prisma.integration.findMany({
+    where: { channel: 'EMAIL', isActive: true },
+  });
+
+  for (const integration of integrations) {
+    // A broken config only skips its own integration
+    try {
+      const config = JSON.parse(decrypt(integration.config));
+      if (!config.imapHost) {
+        continue;
+      }
+
+      const processed = await pollBounceMailbox(integration.tenantId, config);
+      if (processed > 0) {
+        console.log(`[Bounces] Processed ${processed} bounces for integration ${integration.id}`);
+      }
+    } catch (error: any) {
+      console.error(`[Bounces] Failed to poll bounce mailbox for integration ${integration.id}:`, error.message);
+    }
+  }
+}
@@ -1,44 +1,181 @@
 import { prisma } from '../../lib/prisma';
 import { decrypt } from '../../lib/crypto';
+import { addMessageJob, addCampaignJob } from '../../lib/queue';
 import axios from 'axios';
 import nodemailer from 'nodemailer';
 import twilio from 'twilio';
-import { Channel } from '@prisma/client';
+import { z } from 'zod';
+import { renderTemplate, assertValidTemplate, TemplateContact } from '../../lib/template-renderer';
+import { varyMessage, getMessageSeed } from '../../lib/message-variation';
+import { buildWhatsAppTemplatePayload, WhatsAppTemplatePayload } from '../integrations/whatsapp-templates.service';
+import { getMediaKind, assertMediaForChannels, MediaAttachment } from '../media/media.service';
+import { getStorage } from '../../lib/storage';
+import { addEmailTracking, MESSAGE_REF_HEADER } from '../../lib/email-tracking';
+import { getUnsubscribeUrl } from '../../lib/unsubscribe';
+import { shortenLinks } from './short-links.service';
+import { findSuppression, getSuppressedContactIds } from '../suppressions/suppressions.service';
+import { hasChannelConsent } from '../contacts/consent.service';
+import { Channel, Integration, ProviderErrorType } from '@prisma/client';
+import { takeIntegrationToken } from '../../lib/rate-limiter';
+
+// WhatsApp and Telegram both cap media captions at 1024 characters
+const MEDIA_CAPTION_LIMIT = 1024;
+
+export type SendResult = {
+  success: boolean;
+  externalId?: string;
+  error?: string;
+  errorType?: ProviderErrorType;
+  retryAfterMs?: number;
+  fallbackChannel?: Channel;
+  suppressed?: boolean; // Blocked by the suppression list; final, nothing was sent
+};
+
+// Maps a provider exception to how the worker should treat it
+export function classifyProviderError(
+  channel: Channel,
+  error: any
+): { errorType: ProviderErrorType; retryAfterMs?: number } {
+  const status: number | undefined = error.response?.status ?? error.status;
+
+  switch (channel) {
+    case 'WHATSAPP': {
+      const code = error.response?.data?.error?.code;
+      // Throughput / pair rate limits
+      if ([4, 80007, 130429, 131048, 131056].includes(code)) {
+        return { errorType: 'RATE_LIMITED' };
+      }
+      // Expired token, missing permissions
+      if ([0, 10, 190, 200, 131005].includes(code)) {
+        return { errorType: 'AUTH_CONFIG' };
+      }
+      break;
+    }
+    case 'SMS': {
+      if (error.code === 20429) {
+        return { errorType: 'RATE_LIMITED' };
+      }
+      if (error.code === 20003) {
+        return { errorType: 'AUTH_CONFIG' };
+      }
+      break;
+    }
+    case 'TELEGRAM': {
+      const retryAfter = error.response?.data?.parameters?.retry_after;
+      if (retryAfter) {
+        return { errorType: 'RATE_LIMITED', retryAfterMs: retryAfter * 1000 };
+      }
+      // Bot was blocked by the user
+      if (status === 403) {
+        return { errorType: 'PERMANENT' };
+      }
+      break;
+    }
+    case 'EMAIL': {
+      if (error.code === 'EAUTH' || error.responseCode === 535) {
+        return { errorType: 'AUTH_CONFIG' };
+      }
+      // SMTP 4xx replies are temporary, 5xx are final
+      if (error.responseCode >= 400 && error.responseCode < 500) {
+        return { errorType: 'TRANSIENT' };
+      }
+      if (error.responseCode >= 500) {
+        return { errorType: 'PERMANENT' };
+      }
+      break;
+    }
+  }
+
+  if (status === 429) {
+    const retryAfter = parseInt(error.response?.headers?.['retry-after'], 10);
+    return { errorType: 'RATE_LIMITED', retryAfterMs: retryAfter > 0 ? retryAfter * 1000 : undefined };
+  }
+  if (status === 401 || status === 403) {
+    return { errorType: 'AUTH_CONFIG' };
+  }
+  if (status && status >= 500) {
+    return { errorType: 'TRANSIENT' };
+  }
+  if (status && status >= 400) {
+    return { errorType: 'PERMANENT' };
+  }
+
+  // Network errors (ECONNRESET, ETIMEDOUT, ...) and anything unknown are worth another try
+  return { errorType: 'TRANSIENT' };
+}
 
 // WhatsApp (Meta Cloud API)
 export async function sendWhatsAppMessage(
   phone: string,
   content: string,
-  config: any
-): Promise<{ success: boolean; externalId?: string; error?: string }> {
+  config: any,
+  template?: WhatsAppTemplatePayload,
+  attachment?: MediaAttachment
+): Promise<SendResult> {
   try {
     const { phoneNumberId, accessToken } = config;
-    
-    const response = await axios.post(
-      `https://graph.facebook.com/v18.0/${phoneNumberId}/messages`,
-      {
-        messaging_product: 'whatsapp',
-        recipient_type: 'individual',
-        to: phone,
-        type: 'text',
-        text: { body: content },
-      },
-      {
-        headers: {
-          Authorization: `Bearer ${accessToken}`,
-          'Content-Type': 'application/json',
+
+    const post = async (body: Record<string, unknown>): Promise<string | undefined> => {
+      const response = await axios.post(
+        `https://graph.facebook.com/v18.0/${phoneNumberId}/messages`,
+        {
+          messaging_product: 'whatsapp',
+          recipient_type: 'individual',
+          to: phone,
+          ...body,
         },
+        {
+          headers: {
+            Authorization: `Bearer ${accessToken}`,
+            'Content-Type': 'application/json',
+          },
+        }
+      );
+      return response.data.messages?.[0]?.id;
+    };
+
+    let externalId: string | undefined;
+
+    // Approved templates are the only way to message outside the 24h customer service window
+    if (template) {
+      externalId = await post({
+        type: 'template',
+        template: {
+          name: template.name,
+          language: { code: template.language },
+          components: template.components,
+        },
+      });
+    } else if (attachment) {
+      const kind = getMediaKind(attachment.mimeType);
+      const caption = kind !== 'audio' && content.length <= MEDIA_CAPTION_LIMIT ? content : undefined;
+
+      externalId = await post({
+        type: kind,
+        [kind]: {
+          link: attachment.url,
+          ...(caption ? { caption } : {}),
+          ...(kind === 'document' ? { filename: attachment.filename } : {}),
+        },
+      });
+
+      // Audio takes no caption and long text doesn't fit one
+      if (!caption && content.trim()) {
+        await post({ type: 'text', text: { body: content } });
       }
-    );
+    } else {
+      externalId = await post({ type: 'text', text: { body: content } });
+    }
 
     return {
       success: true,
-      externalId: response.data.messages?.[0]?.id,
+      externalId,
     };
   } catch (error: any) {
     return {
       success: false,
       error: error.response?.data?.error?.message || error.message,
+      ...classifyProviderError('WHATSAPP', error),
     };
   }
 }
@@ -49,8 +186,10 @@ export async function sendEmail(
   subject: string,
   content: string,
   config: any,
-  unsubscribeUrl?: string
-): Promise<{ success: boolean; externalId?: string; error?: string }> {
+  unsubscribeUrl?: string,
+  attachment?: MediaAttachment,
+  trackingMessageId?: string
+): Promise<SendResult> {
   try {
     const { host, port, user, pass, secure } = config;
     
@@ -66,15 +205,35 @@ export async function sendEmail(
       .replace(/\{\{unsubscribe_url\}\}/g, unsubscribeUrl || '#')
       .replace(/\{unsubscribe_url\}/g, unsubscribeUrl || '#');
 
-    // Add unsubscribe header
+    // Open pixel and click redirects for campaign/API messages
+    if (trackingMessageId) {
+      htmlContent = addEmailTracking(htmlContent, trackingMessageId, {
+        skipUrls: unsubscribeUrl ? [unsubscribeUrl] : [],
+      });
+    }
+
+    // Add unsubscribe headers; List-Unsubscribe-Post enables one-click unsubscribe (RFC 8058)
     const info = await transporter.sendMail({
       from: `"${config.fromName || 'Becastly'}" <${user}>`,
       to,
       subject,
       html: htmlContent,
       headers: {
-        'List-Unsubscribe': `<${unsubscribeUrl || '#'}>`,
+        ...(unsubscribeUrl
+          ? {
+            'List-Unsubscribe': `<${unsubscribeUrl}>`,
+            'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click',
+          }
+          : {}),
+        ...(trackingMessageId ? { [MESSAGE_REF_HEADER]: trackingMessageId } : {}),
       },
+      attachments: attachment
+        ? [{
+          filename: attachment.filename,
+          content: await getStorage().get(attachment.storageKey),
+          contentType: attachment.mimeType,
+        }]
+        : undefined,
     });
 
     return {
@@ -85,6 +244,7 @@ export async function sendEmail(
     return {
       success: false,
       error: error.message,
+      ...classifyProviderError('EMAIL', error),
     };
   }
 }
@@ -93,32 +253,53 @@ export async function sendEmail(
 export async function sendTelegramMessage(
   chatId: string,
   content: string,
-  config: any
-): Promise<{ success: boolean; externalId?: string; error?: string }> {
+  config: any,
+  attachment?: MediaAttachment
+): Promise<SendResult> {
   try {
     const { botToken } = config;
-    
-    const response = await axios.post(
-      `https://api.telegram.org/bot${botToken}/sendMessage`,
-      {
+
+    const call = async (method: string, body: Record<string, unknown>) => {
+      const response = await axios.post(`https://api.telegram.org/bot${botToken}/${method}`, {
         chat_id: chatId,
-        text: content,
         parse_mode: 'HTML',
+        ...body,
+      });
+
+      if (!response.data.ok) {
+        throw new Error(response.data.description);
       }
-    );
 
-    if (!response.data.ok) {
-      throw new Error(response.data.description);
+      return String(response.data.result.message_id);
+    };
+
+    let externalId: string;
+
+    if (attachment) {
+      // Photos render inline; anything else goes out as a file
+      const isPhoto = getMediaKind(attachment.mimeType) === 'image' && attachment.mimeType !== 'image/gif';
+      const caption = content.length <= MEDIA_CAPTION_LIMIT ? content : undefined;
+
+      externalId = isPhoto
+        ? await call('sendPhoto', { photo: attachment.url, caption })
+        : await call('sendDocument', { document: attachment.url, caption });
+
+      if (!caption) {
+        await call('sendMessage', { text: content });
+      }
+    } else {
+      externalId = await call('sendMessage', { text: content });
     }
 
     return {
       success: true,
-      externalId: String(response.data.result.message_id),
+      externalId,
     };
   } catch (error: any) {
     return {
       success: false,
       error: error.response?.data?.description || error.message,
+      ...classifyProviderError('TELEGRAM', error),
     };
   }
 }
@@ -127,17 +308,20 @@ export async function sendTelegramMessage(
 export async function sendSMS(
   to: string,
   content: string,
-  config: any
-): Promise<{ success: boolean; externalId?: string; error?: string }> {
+  config: any,
+  attachment?: MediaAttachment
+): Promise<SendResult> {
   try {
     const { accountSid, authToken, phoneNumber } = config;
     
     const client = twilio(accountSid, authToken);
     
+    // A media URL turns the SMS into an MMS
     const message = await client.messages.create({
       body: content + '\n\nReply STOP to opt-out',
       from: phoneNumber,
       to,
+      mediaUrl: attachment ? [attachment.url] : undefined,
     });
 
     return {
@@ -148,6 +332,7 @@ export async function sendSMS(
     return {
       success: false,
       error: error.message,
+      ...classifyProviderError('SMS', error),
     };
   }
 }
@@ -160,34 +345,42 @@ export async function sendMessage(
   contact: any,
   integrationConfig: string,
   campaign?: any
-): Promise<{ success: boolean; externalId?: string; error?: string }> {
+): Promise<SendResult> {
   // Decrypt config
   const config = JSON.parse(decrypt(integrationConfig));
 
-  let result: { success: boolean; externalId?: string; error?: string };
+  let result: SendResult;
 
   switch (channel) {
     case 'WHATSAPP':
-      result = await sendWhatsAppMessage(contact.phone!, content, config);
+      result = await sendWhatsAppMessage(
+        contact.phone!,
+        content,
+        config,
+        campaign?.whatsappTemplatePayload,
+        campaign?.attachment
+      );
       break;
     
     case 'EMAIL':
-      const unsubscribeUrl = `${process.env.APP_URL}/unsubscribe?contact=${contact.id}`;
+      const unsubscribeUrl = getUnsubscribeUrl({ contactId: contact.id, messageId });
       result = await sendEmail(
         contact.email!,
         campaign?.subject || 'Message from Becastly',
         content,
         config,
-        unsubscribeUrl
+        unsubscribeUrl,
+        campaign?.attachment,
+        messageId
       );
       break;
     
     case 'TELEGRAM':
-      result = await sendTelegramMessage(contact.telegramId!, content, config);
+      result = await sendTelegramMessage(contact.telegramId!, content, config, campaign?.attachment);
       break;
     
     case 'SMS':
-      result = await sendSMS(contact.phone!, content, config);
+      result = await sendSMS(contact.phone!, content, config, campaign?.attachment);
       break;
     
     default:
@@ -201,21 +394,108 @@ export async function sendMessage(
       status: result.success ? 'SENT' : 'FAILED',
       externalId: result.externalId,
       errorMessage: result.error,
+      errorType: result.errorType,
       sentAt: result.success ? new Date() : undefined,
       failedAt: result.success ? undefined : new Date(),
     },
   });
 
+  await prisma.messageAttempt.create({
+    data: {
+      messageId,
+      channel,
+      status: result.success ? 'SENT' : 'FAILED',
+      externalId: result.externalId,
+      errorMessage: result.error,
+      errorType: result.errorType,
+    },
+  });
+
   return result;
 }
 
+// Address field a contact needs for each channel
+export function getContactAddress(channel: Channel, contact: any): string | null {
+  switch (channel) {
+    case 'WHATSAPP':
+    case 'SMS':
+      return contact.phone || null;
+    case 'EMAIL':
+      return contact.email || null;
+    case 'TELEGRAM':
+      return contact.telegramId || null;
+    default:
+      return null;
+  }
+}
+
+// Next channel in the campaign's fallback chain that can still reach the contact
+async function findFallbackChannel(message: {
+  tenantId: string;
+  channel: Channel;
+  contact: any;
+  campaign: { userId: string; channel: Channel; fallbackChannels: Channel[] };
+}): Promise<Channel | null> {
+  const chain = [message.campaign.channel, ...message.campaign.fallbackChannels];
+  const position = chain.indexOf(message.channel);
+
+  // Channel is not part of the chain (e.g. API sends)
+  if (position === -1) {
+    return null;
+  }
+
+  const remaining = chain.slice(position + 1);
+
+  for (const channel of remaining) {
+    if (!getContactAddress(channel, message.contact) || message.contact.optedOutChannels?.includes(channel)) {
+      continue;
+    }
+
+    if (!(await hasChannelConsent(message.tenantId, message.contact.id, channel))) {
+      continue;
+    }
+
+    const integration = await getActiveIntegration(message.tenantId, message.campaign.userId, channel);
+    if (integration) {
+      return channel;
+    }
+  }
+
+  return null;
+}
+
+// Fills placeholders in a stored message/template for one contact
+export function renderMessageContent(
+  content: string,
+  contact: TemplateContact,
+  variables?: string | null,
+) {
+  return renderTemplate(content, contact, {
+    variables: variables ? JSON.parse(variables) : undefined,
+  });
+}
+
+// Active integration used to send on a channel (tenant-scoped)
+export async function getActiveIntegration(tenantId: string, userId: string, channel: Channel) {
+  return prisma.integration.findFirst({
+    where: {
+      tenantId,
+      userId,
+      channel,
+      isActive: true,
+    },
+  });
+}
+
 // Process single message
-export async function processMessage(messageId: string) {
+export async function processMessage(messageId: string): Promise<SendResult> {
   const message = await prisma.message.findUnique({
     where: { id: messageId },
     include: {
       contact: true,
-      campaign: true,
+      campaign: { include: { whatsappTemplate: true, media: true } },
+      variant: true,
+      media: true,
     },
   });
 
@@ -227,6 +507,18 @@ export async function processMessage(messageId: string) {
     throw new Error(`Message is not in a sendable state: ${message.status}`);
   }
 
+  // Checked on every send: the address may have been suppressed through another contact record
+  const suppression = await findSuppression(message.tenantId, message.channel, message.contact);
+  if (suppression) {
+    const error = `Recipient is suppressed (${suppression.reason.toLowerCase()})`;
+    await prisma.message.update({
+      where: { id: messageId },
+      data: { status: 'SUPPRESSED', errorMessage: error },
+    });
+    console.log(`[Messages] Message ${messageId} not sent: ${message.channel} address is suppressed`);
+    return { success: false, error, suppressed: true };
+  }
+
   // Update status to QUEUED
   await prisma.message.update({
     where: { id: messageId },
@@ -234,14 +526,7 @@ export async function processMessage(messageId: string) {
   });
 
   // Get integration (tenant-scoped)
-  const integration = await prisma.integration.findFirst({
-    where: {
-      tenantId: message.tenantId,
-      userId: message.campaign.userId,
-      channel: message.channel,
-      isActive: true,
-    },
-  });
+  const integration = await getActiveIntegration(message.tenantId, message.campaign.userId, message.channel);
 
   if (!integration) {
     await prisma.message.update({
@@ -249,30 +534,174 @@ export async function processMessage(messageId: string) {
       data: {
         status: 'FAILED',
         errorMessage: 'No active integration found',
+        errorType: 'AUTH_CONFIG',
         failedAt: new Date(),
       },
     });
-    return { success: false, error: 'No active integration found' };
+    return { success: false, error: 'No active integration found', errorType: 'AUTH_CONFIG' };
   }
 
   // Process template variables
-  let content = message.content;
   const contact = message.contact;
-  
-  content = content
-    .replace(/\{name\}/g, contact.name || '')
-    .replace(/\{email\}/g, contact.email || '')
-    .replace(/\{phone\}/g, contact.phone || '');
+  let content = renderMessageContent(message.content, contact, message.variables);
+
+  // Per-recipient short links attribute clicks (email has its own click tracking)
+  if (message.campaign.shortenLinks && message.channel !== 'EMAIL') {
+    content = await shortenLinks(message.id, content);
+  }
+  const subject = message.subject || message.variant?.subject || message.campaign.subject;
+
+  // Template parameters are rendered per contact like any other content
+  const { whatsappTemplate, whatsappTemplateParams } = message.campaign;
+  const whatsappTemplatePayload = message.channel === 'WHATSAPP' && whatsappTemplate && whatsappTemplateParams
+    ? buildWhatsAppTemplatePayload(
+      whatsappTemplate,
+      JSON.parse(whatsappTemplateParams),
+      value => renderMessageContent(value, contact, message.variables),
+    )
+    : undefined;
 
   // Send the message
-  return sendMessage(
+  const result = await sendMessage(
     messageId,
     message.channel,
     content,
     contact,
     integration.config,
-    message.campaign
+    {
+      ...message.campaign,
+      subject: subject ? renderMessageContent(subject, contact, message.variables) : subject,
+      whatsappTemplatePayload,
+      attachment: message.media || message.campaign.media || undefined,
+    }
   );
+
+  // Retryable failures stay on this channel; the worker falls back once their retries run out
+  if (!result.success && (result.errorType === 'PERMANENT' || result.errorType === 'AUTH_CONFIG')) {
+    const fallbackChannel = await moveToFallbackChannel(message);
+    if (fallbackChannel) {
+      return { ...result, fallbackChannel };
+    }
+  }
+
+  return result;
+}
+
+async function moveToFallbackChannel(message: Parameters<typeof findFallbackChannel>[0] & {
+  id: string;
+  campaignId: string;
+  contactId: string;
+  content: string;
+}) {
+  const fallbackChannel = await findFallbackChannel(message);
+  if (!fallbackChannel) {
+    return null;
+  }
+
+  console.log(`[Messages] ${message.channel} failed for message ${message.id}, falling back to ${fallbackChannel}`);
+
+  await prisma.message.update({
+    where: { id: message.id },
+    data: { channel: fallbackChannel, status: 'QUEUED', failedAt: null },
+  });
+
+  // Goes back through the worker so the fallback integration's rate limits apply
+  await addMessageJob({
+    messageId: message.id,
+    campaignId: message.campaignId,
+    contactId: message.contactId,
+    channel: fallbackChannel,
+    content: message.content,
+    userId: message.campaign.userId,
+  }, 0);
+
+  return fallbackChannel;
+}
+
+// Final failure of a send whose retries ran out (called by the worker); returns the new channel, if any
+export async function fallBackFailedMessage(messageId: string) {
+  const message = await prisma.message.findUnique({
+    where: { id: messageId },
+    include: { contact: true, campaign: true },
+  });
+
+  if (!message || message.status !== 'FAILED') {
+    return null;
+  }
+
+  return moveToFallbackChannel(message);
+}
+
+// Implicit per-user campaign that owns messages sent through the public API
+async function getApiCampaign(tenantId: string, userId: string, channel: Channel) {
+  const existing = await prisma.campaign.findFirst({
+    where: { tenantId, userId, isApi: true, isBatch: false },
+  });
+
+  if (existing) {
+    return existing;
+  }
+
+  return prisma.campaign.create({
+    data: {
+      tenantId,
+      userId,
+      name: 'API',
+      channel,
+      template: '',
+      status: 'RUNNING',
+      isApi: true,
+    },
+  });
+}
+
+// API recipients become contacts so replies, webhooks and analytics can be attributed
+async function findOrCreateRecipient(tenantId: string, userId: string, channel: Channel, to: string) {
+  const field = channel === 'EMAIL' ? 'email' : channel === 'TELEGRAM' ? 'telegramId' : 'phone';
+
+  const existing = await prisma.contact.findFirst({
+    where: { tenantId, [field]: to },
+  });
+
+  if (existing) {
+    return existing;
+  }
+
+  return prisma.contact.create({
+    data: {
+      tenantId,
+      userId,
+      [field]: to,
+      source: 'api',
+    },
+  });
+}
+
+// Longest a direct send waits for a provider token before it is rejected
+const MAX_INLINE_WAIT_MS = 2000;
+
+function rateLimitedError(message: string, retryAfterMs: number) {
+  const error: any = new Error(message);
+  error.statusCode = 429;
+  error.retryAfterMs = retryAfterMs;
+  return error;
+}
+
+// Same per-integration token buckets the message worker applies to campaign sends.
+// Direct sends skip the contact cooldown: the caller decides when to message someone
+async function acquireSendSlot(integration: Integration) {
+  let waited = 0;
+  let waitMs = await takeIntegrationToken(integration);
+
+  while (waitMs > 0 && waited + waitMs <= MAX_INLINE_WAIT_MS) {
+    await new Promise(resolve => setTimeout(resolve, waitMs));
+    waited += waitMs;
+    waitMs = await takeIntegrationToken(integration);
+  }
+
+  if (waitMs > 0) {
+    throw rateLimitedError(`Integration rate limit reached, retry in ${Math.ceil(waitMs / 1000)}s`, waitMs);
+  }
 }
 
 // Send single message directly (for API)
@@ -283,9 +712,11 @@ export async function sendSingleMessage(
     to: string;
     content: string;
     subject?: string;
+    variables?: Record<string, string | number | boolean>;
+    mediaId?: string;
   }
-) {
-  const { channel, to, content, subject } = data;
+): Promise<SendResult & { messageId: string; status: string }> {
+  const { channel, to, content, subject, variables, mediaId } = data;
 
   const user = await prisma.user.findUnique({ where: { id: userId } });
   if (!user) {
@@ -293,44 +724,317 @@ export async function sendSingleMessage(
   }
 
   // Get integration
-  const integration = await prisma.integration.findFirst({
-    where: {
+  const integration = await getActiveIntegration(user.tenantId, userId, channel);
+
+  if (!integration) {
+    throw new Error(`No active ${channel.toLowerCase()} integration found`);
+  }
+
+  const variableNames = Object.keys(variables || {});
+  assertValidTemplate(content, variableNames);
+  if (subject) {
+    assertValidTemplate(subject, variableNames);
+  }
+
+  if (mediaId) {
+    await assertMediaForChannels(user.tenantId, mediaId, [channel]);
+  }
+
+  await acquireSendSlot(integration);
+
+  const campaign = await getApiCampaign(user.tenantId, userId, channel);
+  const contact = await findOrCreateRecipient(user.tenantId, userId, channel, to);
+
+  const message = await prisma.message.create({
+    data: {
       tenantId: user.tenantId,
-      userId,
+      campaignId: campaign.id,
+      contactId: contact.id,
       channel,
-      isActive: true,
+      // Spintax is resolved at creation so the stored content is what was sent
+      content: varyMessage(content, getMessageSeed(campaign.id, contact.id, Date.now().toString()), {
+        knownVariables: variableNames,
+      }),
+      subject: channel === 'EMAIL' ? subject || 'Message' : subject,
+      variables: variables ? JSON.stringify(variables) : null,
+      mediaId,
+      status: 'PENDING',
     },
   });
 
+  const result = await processMessage(message.id);
+
+  const { status } = await prisma.message.findUniqueOrThrow({
+    where: { id: message.id },
+    select: { status: true },
+  });
+
+  return { ...result, messageId: message.id, status };
+}
+
+export const MAX_BATCH_RECIPIENTS = 1000;
+
+export const sendBatchSchema = z.object({
+  channel: z.enum(['WHATSAPP', 'EMAIL', 'TELEGRAM', 'SMS']),
+  content: z.string().min(1), // {variable} placeholders are filled per recipient
+  subject: z.string().optional(),
+  name: z.string().max(200).optional(),
+  mediaId: z.string().optional(), // Uploaded attachment sent to every recipient
+  recipients: z.array(z.object({
+    to: z.string().min(1),
+    variables: z.record(z.union([z.string(), z.number(), z.boolean()])).optional(),
+  })).min(1).max(MAX_BATCH_RECIPIENTS),
+  // Same pacing rules as campaigns
+  dailyLimit: z.number().int().min(1).max(10000).optional(),
+  minDelay: z.number().int().min(0).optional(),
+  maxDelay: z.number().int().min(0).optional(),
+  contactCooldown: z.number().int().min(0).max(7 * 24 * 60 * 60).optional(),
+});
+
+export type SendBatchInput = z.infer<typeof sendBatchSchema>;
+
+// Batch sends get their own hidden campaign so the campaign worker paces them
+export async function createMessageBatch(userId: string, data: SendBatchInput) {
+  const user = await prisma.user.findUnique({ where: { id: userId } });
+  if (!user) {
+    throw new Error('User not found');
+  }
+
+  const channel = data.channel as Channel;
+  const integration = await getActiveIntegration(user.tenantId, userId, channel);
+
   if (!integration) {
     throw new Error(`No active ${channel.toLowerCase()} integration found`);
   }
 
-  // Decrypt config
-  const config = JSON.parse(decrypt(integration.config));
+  // Any key given for some recipient may be used; recipients without it get the default/empty value
+  const variableNames = [...new Set(data.recipients.flatMap(r => Object.keys(r.variables || {})))];
+  assertValidTemplate(data.content, variableNames);
+  if (data.subject) {
+    assertValidTemplate(data.subject, variableNames);
+  }
 
-  let result: { success: boolean; externalId?: string; error?: string };
+  const minDelay = data.minDelay ?? 0;
+  const maxDelay = data.maxDelay ?? Math.max(minDelay, 2);
+  if (maxDelay < minDelay) {
+    throw new Error('maxDelay must be greater than or equal to minDelay');
+  }
 
-  switch (channel) {
-    case 'WHATSAPP':
-      result = await sendWhatsAppMessage(to, content, config);
-      break;
-    
-    case 'EMAIL':
-      result = await sendEmail(to, subject || 'Message', content, config);
-      break;
-    
-    case 'TELEGRAM':
-      result = await sendTelegramMessage(to, content, config);
-      break;
-    
-    case 'SMS':
-      result = await sendSMS(to, content, config);
-      break;
-    
-    default:
-      throw new Error(`Unsupported channel: ${channel}`);
+  if (data.mediaId) {
+    await assertMediaForChannels(user.tenantId, data.mediaId, [channel]);
   }
 
-  return result;
+  const batch = await prisma.campaign.create({
+    data: {
+      tenantId: user.tenantId,
+      userId,
+      name: data.name || `API batch ${new Date().toISOString()}`,
+      channel,
+      template: data.content,
+      subject: data.subject,
+      mediaId: data.mediaId,
+      status: 'RUNNING',
+      dailyLimit: data.dailyLimit ?? data.recipients.length,
+      minDelay,
+      maxDelay,
+      contactCooldown: data.contactCooldown,
+      isApi: true,
+      isBatch: true,
+    },
+  });
+
+  const contacts = new Map<string, Awaited<ReturnType<typeof findOrCreateRecipient>>>();
+  for (const recipient of data.recipients) {
+    if (!contacts.has(recipient.to)) {
+      const contact = await findOrCreateRecipient(user.tenantId, userId, channel, recipient.to);
+      contacts.set(recipient.to, contact);
+    }
+  }
+
+  // Suppressed recipients get a SUPPRESSED result right away instead of a queued send
+  const suppressedIds = await getSuppressedContactIds(user.tenantId, channel, [...contacts.values()]);
+
+  await prisma.message.createMany({
+    data: data.recipients.map((recipient, index) => {
+      const contactId = contacts.get(recipient.to)!.id;
+      const suppressed = suppressedIds.has(contactId);
+
+      return {
+        tenantId: user.tenantId,
+        campaignId: batch.id,
+        contactId,
+        channel,
+        content: varyMessage(data.content, getMessageSeed(batch.id, contactId, String(index)), {
+          knownVariables: variableNames,
+        }),
+        subject: channel === 'EMAIL' ? data.subject || 'Message' : data.subject,
+        variables: recipient.variables ? JSON.stringify(recipient.variables) : null,
+        status: suppressed ? 'SUPPRESSED' as const : 'PENDING' as const,
+        errorMessage: suppressed ? 'Recipient is suppressed' : null,
+      };
+    }),
+  });
+
+  await addCampaignJob({ campaignId: batch.id, userId });
+
+  return {
+    batchId: batch.id,
+    total: data.recipients.length,
+    suppressed: data.recipients.filter(recipient => suppressedIds.has(contacts.get(recipient.to)!.id)).length,
+  };
+}
+
+// Progress plus per-recipient results for a batch
+export async function getMessageBatch(userId: string, batchId: string, options: {
+  page?: number;
+  limit?: number;
+} = {}) {
+  const user = await prisma.user.findUnique({ where: { id: userId } });
+  if (!user) {
+    throw new Error('User not found');
+  }
+
+  const batch = await prisma.campaign.findFirst({
+    where: { id: batchId, tenantId: user.tenantId, userId, isBatch: true },
+  });
+
+  if (!batch) {
+    throw new Error('Batch not found');
+  }
+
+  const { page = 1, limit = 100 } = options;
+
+  const [statusCounts, messages] = await Promise.all([
+    prisma.message.groupBy({
+      by: ['status'],
+      where: { campaignId: batch.id },
+      _count: true,
+    }),
+    prisma.message.findMany({
+      where: { campaignId: batch.id },
+      include: { contact: true },
+      orderBy: { id: 'asc' },
+      skip: (page - 1) * limit,
+      take: limit,
+    }),
+  ]);
+
+  const counts: Record<string, number> = {};
+  for (const row of statusCounts) {
+    counts[row.status] = row._count;
+  }
+
+  const total = Object.values(counts).reduce((sum, count) => sum + count, 0);
+  const inFlight = (counts.PENDING || 0) + (counts.QUEUED || 0);
+
+  return {
+    batch: {
+      id: batch.id,
+      name: batch.name,
+      channel: batch.channel,
+      status: batch.status === 'RUNNING' && inFlight === 0 ? 'COMPLETED' : batch.status,
+      createdAt: batch.createdAt,
+      total,
+      processed: total - inFlight,
+      progress: total > 0 ? Math.round(((total - inFlight) / total) * 100) : 100,
+      counts,
+    },
+    results: messages.map(message => ({
+      to: getContactAddress(message.channel, message.contact),
+      ...serializeMessage(message),
+    })),
+    pagination: {
+      page,
+      limit,
+      total,
+      totalPages: Math.ceil(total / limit),
+    },
+  };
+}
+
+function serializeMessage(message: any) {
+  return {
+    id: message.id,
+    campaignId: message.campaignId,
+    contactId: message.contactId,
+    channel: message.channel,
+    status: message.status,
+    content: message.content,
+    subject: message.subject,
+    externalId: message.externalId,
+    errorMessage: message.errorMessage,
+    errorType: message.errorType,
+    createdAt: message.createdAt,
+    sentAt: message.sentAt,
+    deliveredAt: message.deliveredAt,
+    readAt: message.readAt,
+    failedAt: message.failedAt,
+    replyReceived: message.replyReceived,
+  };
+}
+
+export async function getMessage(userId: string, messageId: string) {
+  const user = await prisma.user.findUnique({ where: { id: userId } });
+  if (!user) {
+    throw new Error('User not found');
+  }
+
+  const message = await prisma.message.findFirst({
+    where: { id: messageId, tenantId: user.tenantId, campaign: { userId } },
+  });
+
+  if (!message) {
+    throw new Error('Message not found');
+  }
+
+  return serializeMessage(message);
+}
+
+// Lists API-sent messages unless a specific campaign is requested
+export async function listMessages(userId: string, options: {
+  campaignId?: string;
+  status?: string;
+  channel?: string;
+  page?: number;
+  limit?: number;
+}) {
+  const user = await prisma.user.findUnique({ where: { id: userId } });
+  if (!user) {
+    throw new Error('User not found');
+  }
+
+  const { campaignId, status, channel, page = 1, limit = 50 } = options;
+
+  const where: any = {
+    tenantId: user.tenantId,
+    campaign: campaignId ? { id: campaignId, userId } : { userId, isApi: true },
+  };
+
+  if (status) {
+    where.status = status;
+  }
+
+  if (channel) {
+    where.channel = channel;
+  }
+
+  const [messages, total] = await Promise.all([
+    prisma.message.findMany({
+      where,
+      skip: (page - 1) * limit,
+      take: limit,
+      orderBy: { createdAt: 'desc' },
+    }),
+    prisma.message.count({ where }),
+  ]);
+
+  return {
+    messages: messages.map(serializeMessage),
+    pagination: {
+      page,
+      limit,
+      total,
+      totalPages: Math.ceil(total / limit),
+    },
+  };
 }
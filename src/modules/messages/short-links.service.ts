@@ -0,0 +1,65 @@
+import { prisma } from '../../lib/prisma';
+import { Prisma } from '@prisma/client';
+import { randomBytes } from 'crypto';
+
+const CODE_ALPHABET = '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz';
+const CODE_LENGTH = 7;
+const MAX_CREATE_ATTEMPTS = 5;
+
+const URL_REGEX = /https?:\/\/[^\s<>"']+/g;
+// Sentence punctuation right after a URL isn't part of it
+const TRAILING_PUNCTUATION = /[.,!?;:)\]]+$/;
+
+// SHORT_LINK_BASE_URL lets a branded domain (https://go.example.com) point at this app
+export function getShortLinkBaseUrl() {
+  return `${process.env.SHORT_LINK_BASE_URL || process.env.APP_URL}/l`;
+}
+
+function generateCode() {
+  return [...randomBytes(CODE_LENGTH)].map(byte => CODE_ALPHABET[byte % CODE_ALPHABET.length]).join('');
+}
+
+// Upsert so concurrent retries of the same message share the link; a clash on
+// `code` is retried with a new one, a clash on messageId+url finds the winner's row
+async function getOrCreateShortLink(messageId: string, url: string) {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await prisma.shortLink.upsert({
+        where: { messageId_url: { messageId, url } },
+        create: { code: generateCode(), messageId, url },
+        update: {},
+      });
+    } catch (error) {
+      const uniqueViolation = error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002';
+      if (!uniqueViolation || attempt >= MAX_CREATE_ATTEMPTS) {
+        throw error;
+      }
+    }
+  }
+}
+
+/**
+ * Replaces every URL in rendered content with a short link owned by the message.
+ * Retries of the same message reuse its links.
+ */
+export async function shortenLinks(messageId: string, content: string): Promise<string> {
+  const baseUrl = getShortLinkBaseUrl();
+  const urls = [...new Set((content.match(URL_REGEX) || []).map(url => url.replace(TRAILING_PUNCTUATION, '')))]
+    .filter(url => !url.startsWith(baseUrl));
+
+  if (urls.length === 0) {
+    return content;
+  }
+
+  const shortUrls = new Map<string, string>();
+  for (const url of urls) {
+    const link = await getOrCreateShortLink(messageId, url);
+    shortUrls.set(url, `${baseUrl}/${link.code}`);
+  }
+
+  return content.replace(URL_REGEX, match => {
+    const url = match.replace(TRAILING_PUNCTUATION, '');
+    const shortUrl = shortUrls.get(url);
+    return shortUrl ? shortUrl + match.slice(url.length) : match;
+  });
+}
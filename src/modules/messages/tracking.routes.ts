@@ -0,0 +1,72 @@
+import { FastifyInstance, FastifyRequest } from 'fastify';
+import { parseTrackingToken } from '../../lib/email-tracking';
+import { recordEmailOpen, recordEmailClick, recordShortLinkClick } from './tracking.service';
+
+// 1x1 transparent GIF
+const TRACKING_PIXEL = Buffer.from('R0lGODlhAQABAIAAAAAAAP///yH5BAEAAAAALAAAAAABAAEAAAIBRAA7', 'base64');
+
+function getRequestInfo(request: FastifyRequest) {
+  return {
+    ipAddress: request.ip,
+    userAgent: request.headers['user-agent'],
+  };
+}
+
+// Public email tracking endpoints; recording failures never break the pixel or the redirect
+export async function trackingRoutes(fastify: FastifyInstance) {
+  // Open pixel
+  fastify.get('/o/:token', async (request, reply) => {
+    const { token } = request.params as { token: string };
+    const payload = parseTrackingToken(token);
+
+    if (payload) {
+      try {
+        await recordEmailOpen(payload, getRequestInfo(request));
+      } catch (error: any) {
+        console.error('[Tracking] Failed to record open:', error.message);
+      }
+    }
+
+    return reply
+      .header('Content-Type', 'image/gif')
+      .header('Cache-Control', 'no-store, no-cache, must-revalidate, private')
+      .send(TRACKING_PIXEL);
+  });
+
+  // Click redirect
+  fastify.get('/c/:token', async (request, reply) => {
+    const { token } = request.params as { token: string };
+    const payload = parseTrackingToken(token);
+
+    if (!payload?.url) {
+      return reply.code(404).send({ success: false, error: 'Link not found' });
+    }
+
+    try {
+      await recordEmailClick(payload, getRequestInfo(request));
+    } catch (error: any) {
+      console.error('[Tracking] Failed to record click:', error.message);
+    }
+
+    return reply.redirect(payload.url);
+  });
+}
+
+// Public short link redirects (/l/:code)
+export async function shortLinkRoutes(fastify: FastifyInstance) {
+  fastify.get('/:code', async (request, reply) => {
+    const { code } = request.params as { code: string };
+
+    try {
+      const url = await recordShortLinkClick(code, getRequestInfo(request));
+
+      if (!url) {
+        return reply.code(404).send({ success: false, error: 'Link not found' });
+      }
+
+      return reply.redirect(url);
+    } catch (error: any) {
+      return reply.code(400).send({ success: false, error: error.message });
+    }
+  });
+}
@@ -0,0 +1,120 @@
+import { prisma } from '../../lib/prisma';
+import { TrackingPayload } from '../../lib/email-tracking';
+
+export const EMAIL_OPENED_EVENT = 'email_opened';
+export const EMAIL_CLICKED_EVENT = 'email_clicked';
+export const LINK_CLICKED_EVENT = 'link_clicked';
+
+type RequestInfo = {
+  ipAddress?: string;
+  userAgent?: string;
+};
+
+async function findTrackedMessage(messageId: string) {
+  return prisma.message.findUnique({
+    where: { id: messageId },
+    include: { campaign: { select: { userId: true } } },
+  });
+}
+
+// An open is the email equivalent of a read receipt
+async function markOpened(messageId: string, now: Date) {
+  const { count } = await prisma.message.updateMany({
+    where: { id: messageId, openedAt: null },
+    data: { openedAt: now },
+  });
+
+  await prisma.message.updateMany({
+    where: { id: messageId, status: { in: ['SENT', 'DELIVERED'] } },
+    data: { status: 'READ', readAt: now },
+  });
+
+  return count > 0;
+}
+
+export async function recordEmailOpen(payload: TrackingPayload, info: RequestInfo) {
+  const message = await findTrackedMessage(payload.messageId);
+  if (!message) {
+    return;
+  }
+
+  await prisma.messageEvent.create({
+    data: { messageId: message.id, type: 'OPEN', ...info },
+  });
+
+  // Mail clients re-fetch the pixel; analytics only counts unique opens
+  if (await markOpened(message.id, new Date())) {
+    // The mailbox works again, so earlier soft bounces no longer count
+    await prisma.contact.updateMany({
+      where: { id: message.contactId, softBounceCount: { gt: 0 } },
+      data: { softBounceCount: 0 },
+    });
+
+    await prisma.analyticsEvent.create({
+      data: {
+        tenantId: message.tenantId,
+        userId: message.campaign.userId,
+        eventType: EMAIL_OPENED_EVENT,
+        campaignId: message.campaignId,
+        contactId: message.contactId,
+        channel: message.channel,
+        eventData: JSON.stringify({ messageId: message.id }),
+      },
+    });
+  }
+}
+
+type TrackedMessage = NonNullable<Awaited<ReturnType<typeof findTrackedMessage>>>;
+
+async function recordClick(message: TrackedMessage, url: string, info: RequestInfo, eventType: string) {
+  await prisma.messageEvent.create({
+    data: { messageId: message.id, type: 'CLICK', url, ...info },
+  });
+
+  await prisma.message.updateMany({
+    where: { id: message.id, clickedAt: null },
+    data: { clickedAt: new Date() },
+  });
+
+  await prisma.analyticsEvent.create({
+    data: {
+      tenantId: message.tenantId,
+      userId: message.campaign.userId,
+      eventType,
+      campaignId: message.campaignId,
+      contactId: message.contactId,
+      channel: message.channel,
+      eventData: JSON.stringify({ messageId: message.id, url }),
+    },
+  });
+}
+
+export async function recordEmailClick(payload: TrackingPayload, info: RequestInfo) {
+  const message = await findTrackedMessage(payload.messageId);
+  if (!message || !payload.url) {
+    return;
+  }
+
+  // Images are often blocked, so a click also counts as the open
+  await markOpened(message.id, new Date());
+  await recordClick(message, payload.url, info, EMAIL_CLICKED_EVENT);
+}
+
+// Resolves a /l/:code short link; returns null for unknown codes
+export async function recordShortLinkClick(code: string, info: RequestInfo): Promise<string | null> {
+  const link = await prisma.shortLink.findUnique({ where: { code } });
+  if (!link) {
+    return null;
+  }
+
+  try {
+    const message = await findTrackedMessage(link.messageId);
+    if (message) {
+      await recordClick(message, link.url, info, LINK_CLICKED_EVENT);
+    }
+  } catch (error: any) {
+    console.error('[Tracking] Failed to record short link click:', error.message);
+  }
+
+  return link.url;
+}
@@ -0,0 +1,120 @@
+import { FastifyInstance } from 'fastify';
+import {
+  getSuppressions,
+  createSuppression,
+  deleteSuppression,
+  importSuppressionsFromCSV,
+  exportSuppressionsCSV,
+  suppressionSchema,
+} from './suppressions.service';
+
+export async function suppressionsRoutes(fastify: FastifyInstance) {
+  // List suppressed values
+  fastify.get('/', async (request, reply) => {
+    const userId = (request as any).user?.id;
+
+    if (!userId) {
+      return reply.code(401).send({ success: false, error: 'Unauthorized' });
+    }
+
+    const { type, search, page, limit } = request.query as any;
+
+    try {
+      const result = await getSuppressions(userId, {
+        type,
+        search,
+        page: page ? parseInt(page) : 1,
+        limit: limit ? parseInt(limit) : 50,
+      });
+
+      return reply.send({ success: true, ...result });
+    } catch (error: any) {
+      return reply.code(400).send({ success: false, error: error.message });
+    }
+  });
+
+  // Add a value manually
+  fastify.post('/', async (request, reply) => {
+    const userId = (request as any).user?.id;
+
+    if (!userId) {
+      return reply.code(401).send({ success: false, error: 'Unauthorized' });
+    }
+
+    try {
+      const data = suppressionSchema.parse(request.body);
+      const suppression = await createSuppression(userId, data);
+      return reply.code(201).send({ success: true, suppression });
+    } catch (error: any) {
+      return reply.code(400).send({ success: false, error: error.message });
+    }
+  });
+
+  // Remove a value (sending to it is allowed again)
+  fastify.delete('/:id', async (request, reply) => {
+    const userId = (request as any).user?.id;
+
+    if (!userId) {
+      return reply.code(401).send({ success: false, error: 'Unauthorized' });
+    }
+
+    const { id } = request.params as { id: string };
+
+    try {
+      await deleteSuppression(userId, id);
+      return reply.send({ success: true });
+    } catch (error: any) {
+      return reply.code(400).send({ success: false, error: error.message });
+    }
+  });
+
+  // Import from CSV
+  fastify.post('/import', async (request, reply) => {
+    const userId = (request as any).user?.id;
+
+    if (!userId) {
+      return reply.code(401).send({ success: false, error: 'Unauthorized' });
+    }
+
+    try {
+      const data = await request.file();
+
+      if (!data) {
+        return reply.code(400).send({ success: false, error: 'No file provided' });
+      }
+
+      if (!data.filename.toLowerCase().endsWith('.csv')) {
+        return reply.code(400).send({ success: false, error: 'Invalid file format. Supported formats: CSV' });
+      }
+
+      const result = await importSuppressionsFromCSV(userId, await data.toBuffer());
+
+      return reply.send({
+        success: true,
+        message: `Import completed: ${result.imported} imported, ${result.duplicates} duplicates skipped`,
+        details: result,
+      });
+    } catch (error: any) {
+      return reply.code(400).send({ success: false, error: error.message });
+    }
+  });
+
+  // Export as CSV (same columns the import accepts)
+  fastify.get('/export', async (request, reply) => {
+    const userId = (request as any).user?.id;
+
+    if (!userId) {
+      return reply.code(401).send({ success: false, error: 'Unauthorized' });
+    }
+
+    try {
+      const csv = await exportSuppressionsCSV(userId);
+      return reply
+        .header('Content-Type', 'text/csv; charset=utf-8')
+        .header('Content-Disposition', 'attachment; filename="suppressions.csv"')
+        .send(csv);
+    } catch (error: any) {
+      return reply.code(400).send({ success: false, error: error.message });
+    }
+  });
+}
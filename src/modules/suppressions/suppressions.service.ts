@@ -0,0 +1,330 @@
+import { prisma } from '../../lib/prisma';
+import { z } from 'zod';
+import Papa from 'papaparse';
+import { Channel, SuppressionReason, SuppressionType } from '@prisma/client';
+
+const DOMAIN_REGEX = /^(\*\.)?([a-z0-9-]+\.)+[a-z]{2,}$/;
+
+export const suppressionSchema = z.object({
+  type: z.enum(['PHONE', 'EMAIL', 'TELEGRAM', 'DOMAIN']),
+  value: z.string().min(1),
+  note: z.string().max(500).optional(),
+});
+
+export type SuppressionInput = z.infer<typeof suppressionSchema>;
+
+type SuppressionEntry = { type: SuppressionType; value: string };
+
+type SuppressibleContact = {
+  id: string;
+  phone?: string | null;
+  email?: string | null;
+  telegramId?: string | null;
+};
+
+// Values are stored normalized so "+1 (555) 010-0000" and "15550100000" match
+export function normalizeSuppressionValue(type: SuppressionType, value: string): string {
+  const trimmed = value.trim();
+
+  switch (type) {
+    case 'PHONE': {
+      const digits = trimmed.replace(/\D/g, '');
+      if (digits.length < 6) {
+        throw new Error(`Invalid phone number: ${value}`);
+      }
+      return digits;
+    }
+    case 'EMAIL': {
+      const email = trimmed.toLowerCase();
+      if (!z.string().email().safeParse(email).success) {
+        throw new Error(`Invalid email: ${value}`);
+      }
+      return email;
+    }
+    case 'TELEGRAM':
+      return trimmed;
+    case 'DOMAIN': {
+      // "@example.com" and "example.com" are the same entry; "*.example.com" covers subdomains
+      const domain = trimmed.toLowerCase().replace(/^@/, '');
+      if (!DOMAIN_REGEX.test(domain)) {
+        throw new Error(`Invalid domain pattern: ${value}`);
+      }
+      return domain;
+    }
+  }
+}
+
+// The exact domain plus every wildcard pattern that covers it
+function getDomainCandidates(email: string): string[] {
+  const domain = email.split('@')[1]?.toLowerCase();
+  if (!domain) {
+    return [];
+  }
+
+  const labels = domain.split('.');
+  const wildcards = labels.slice(1, -1).map((_, index) => `*.${labels.slice(index + 1).join('.')}`);
+  return [domain, ...wildcards];
+}
+
+// Entries that would block sending to this contact on a channel
+function getContactEntries(channel: Channel, contact: SuppressibleContact): SuppressionEntry[] {
+  switch (channel) {
+    case 'WHATSAPP':
+    case 'SMS': {
+      const phone = contact.phone?.replace(/\D/g, '');
+      return phone ? [{ type: 'PHONE', value: phone }] : [];
+    }
+    case 'EMAIL': {
+      const email = contact.email?.trim().toLowerCase();
+      return email
+        ? [{ type: 'EMAIL', value: email }, ...getDomainCandidates(email).map(value => ({ type: 'DOMAIN' as const, value }))]
+        : [];
+    }
+    case 'TELEGRAM':
+      return contact.telegramId ? [{ type: 'TELEGRAM', value: contact.telegramId.trim() }] : [];
+    default:
+      return [];
+  }
+}
+
+function toWhere(entries: SuppressionEntry[]) {
+  const types = [...new Set(entries.map(entry => entry.type))];
+  return types.map(type => ({
+    type,
+    value: { in: [...new Set(entries.filter(entry => entry.type === type).map(entry => entry.value))] },
+  }));
+}
+
+// ==================== ENFORCEMENT ====================
+
+// Matching suppression for a single send, or null
+export async function findSuppression(tenantId: string, channel: Channel, contact: SuppressibleContact) {
+  const entries = getContactEntries(channel, contact);
+  if (entries.length === 0) {
+    return null;
+  }
+
+  return prisma.suppression.findFirst({
+    where: { tenantId, OR: toWhere(entries) },
+  });
+}
+
+// Bulk check for campaign audiences; returns the ids of suppressed contacts
+export async function getSuppressedContactIds(
+  tenantId: string,
+  channel: Channel,
+  contacts: SuppressibleContact[],
+): Promise<Set<string>> {
+  const entriesByContact = contacts.map(contact => ({ contact, entries: getContactEntries(channel, contact) }));
+  const allEntries = entriesByContact.flatMap(item => item.entries);
+
+  if (allEntries.length === 0) {
+    return new Set();
+  }
+
+  const suppressions = await prisma.suppression.findMany({
+    where: { tenantId, OR: toWhere(allEntries) },
+    select: { type: true, value: true },
+  });
+
+  const suppressed = new Set(suppressions.map(s => `${s.type}:${s.value}`));
+
+  return new Set(
+    entriesByContact
+      .filter(item => item.entries.some(entry => suppressed.has(`${entry.type}:${entry.value}`)))
+      .map(item => item.contact.id),
+  );
+}
+
+/**
+ * Adds entries without failing on duplicates or malformed values.
+ * Used by STOP replies, bounces and complaints.
+ */
+export async function addSuppressions(
+  tenantId: string,
+  entries: { type: SuppressionType; value: string | null | undefined }[],
+  reason: SuppressionReason,
+  note?: string,
+) {
+  const data = entries.flatMap(entry => {
+    if (!entry.value) {
+      return [];
+    }
+    try {
+      return [{ tenantId, type: entry.type, value: normalizeSuppressionValue(entry.type, entry.value), reason, note }];
+    } catch {
+      return [];
+    }
+  });
+
+  if (data.length === 0) {
+    return 0;
+  }
+
+  const { count } = await prisma.suppression.createMany({ data, skipDuplicates: true });
+  return count;
+}
+
+// ==================== MANAGEMENT ====================
+
+async function getTenantId(userId: string) {
+  const user = await prisma.user.findUnique({ where: { id: userId } });
+  if (!user) {
+    throw new Error('User not found');
+  }
+  return user.tenantId;
+}
+
+export async function getSuppressions(userId: string, options: {
+  type?: string;
+  search?: string;
+  page?: number;
+  limit?: number;
+}) {
+  const tenantId = await getTenantId(userId);
+  const { type, search, page = 1, limit = 50 } = options;
+
+  const where: any = { tenantId };
+
+  if (type) {
+    where.type = type;
+  }
+
+  if (search) {
+    where.value = { contains: search.toLowerCase() };
+  }
+
+  const [suppressions, total] = await Promise.all([
+    prisma.suppression.findMany({
+      where,
+      skip: (page - 1) * limit,
+      take: limit,
+      orderBy: { createdAt: 'desc' },
+    }),
+    prisma.suppression.count({ where }),
+  ]);
+
+  return {
+    suppressions,
+    pagination: {
+      page,
+      limit,
+      total,
+      totalPages: Math.ceil(total / limit),
+    },
+  };
+}
+
+export async function createSuppression(userId: string, input: SuppressionInput) {
+  const tenantId = await getTenantId(userId);
+  const value = normalizeSuppressionValue(input.type, input.value);
+
+  const existing = await prisma.suppression.findUnique({
+    where: { tenantId_type_value: { tenantId, type: input.type, value } },
+  });
+
+  if (existing) {
+    throw new Error('Value is already suppressed');
+  }
+
+  return prisma.suppression.create({
+    data: { tenantId, type: input.type, value, note: input.note, reason: 'MANUAL' },
+  });
+}
+
+export async function deleteSuppression(userId: string, suppressionId: string) {
+  const tenantId = await getTenantId(userId);
+
+  const suppression = await prisma.suppression.findFirst({
+    where: { id: suppressionId, tenantId },
+  });
+
+  if (!suppression) {
+    throw new Error('Suppression not found');
+  }
+
+  await prisma.suppression.delete({ where: { id: suppressionId } });
+
+  return { success: true };
+}
+
+const IMPORT_COLUMNS: Record<string, SuppressionType> = {
+  phone: 'PHONE',
+  email: 'EMAIL',
+  telegramid: 'TELEGRAM',
+  telegram: 'TELEGRAM',
+  domain: 'DOMAIN',
+};
+
+/**
+ * Accepts either `type,value[,note]` rows (the export format) or
+ * address columns (phone, email, telegramId, domain) like a contact import.
+ */
+export async function importSuppressionsFromCSV(userId: string, fileBuffer: Buffer) {
+  const tenantId = await getTenantId(userId);
+
+  const result = Papa.parse(fileBuffer.toString('utf-8'), {
+    header: true,
+    skipEmptyLines: true,
+    transformHeader: header => header.trim().toLowerCase(),
+  });
+
+  const errors: string[] = [];
+  const data: { tenantId: string; type: SuppressionType; value: string; note?: string; reason: SuppressionReason }[] = [];
+
+  (result.data as Record<string, string>[]).forEach((row, index) => {
+    const entries: { type: string; value: string }[] = row.type && row.value
+      ? [{ type: row.type.trim().toUpperCase(), value: row.value }]
+      : Object.entries(IMPORT_COLUMNS)
+        .filter(([column]) => row[column])
+        .map(([column, type]) => ({ type, value: row[column] }));
+
+    if (entries.length === 0) {
+      errors.push(`Row ${index + 1}: No value provided`);
+      return;
+    }
+
+    for (const entry of entries) {
+      const parsed = suppressionSchema.shape.type.safeParse(entry.type);
+      if (!parsed.success) {
+        errors.push(`Row ${index + 1}: Unknown type ${entry.type}`);
+        continue;
+      }
+
+      try {
+        data.push({
+          tenantId,
+          type: parsed.data,
+          value: normalizeSuppressionValue(parsed.data, entry.value),
+          note: row.note || undefined,
+          reason: 'IMPORT',
+        });
+      } catch (error: any) {
+        errors.push(`Row ${index + 1}: ${error.message}`);
+      }
+    }
+  });
+
+  const { count } = data.length > 0
+    ? await prisma.suppression.createMany({ data, skipDuplicates: true })
+    : { count: 0 };
+
+  return { imported: count, duplicates: data.length - count, errors };
+}
+
+export async function exportSuppressionsCSV(userId: string): Promise<string> {
+  const tenantId = await getTenantId(userId);
+
+  const suppressions = await prisma.suppression.findMany({
+    where: { tenantId },
+    orderBy: { createdAt: 'asc' },
+  });
+
+  return Papa.unparse(suppressions.map(s => ({
+    type: s.type,
+    value: s.value,
+    reason: s.reason,
+    note: s.note || '',
+    createdAt: s.createdAt.toISOString(),
+  })), { columns: ['type', 'value', 'reason', 'note', 'createdAt'] });
+}
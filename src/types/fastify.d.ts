@@ -15,10 +15,17 @@ declare module 'fastify' {
       role: string;
     };
     apiUser?: {
+      apiKeyId: string;
       userId: string;
       tenantId: string;
       plan: string;
       permissions: string[];
     };
+    rawBody?: Buffer | string; // Set by the webhook body parsers for signature checks
+    idempotency?: {
+      redisKey: string;
+      bodyHash: string;
+      stopRefresh: () => Promise<void>;
+    };
   }
 }
@@ -1,13 +1,43 @@
-import { Worker, Job } from 'bullmq';
-import { redisConnection, MessageJobData } from '../lib/queue';
+import { Worker, Job, DelayedError, UnrecoverableError } from 'bullmq';
+import { Channel, Integration } from '@prisma/client';
+import {
+  redisConnection,
+  MessageJobData,
+  WebhookJobData,
+  ConsentConfirmationJobData,
+  CONSENT_CONFIRMATION_JOB,
+  addDeadLetterJob,
+  scheduleBouncePolling,
+} from '../lib/queue';
 import { prisma } from '../lib/prisma';
-import { processMessage } from '../modules/messages/messages.service';
-import { enqueueComplianceBatch } from '../lib/sender-engine';
+import { processMessage, getActiveIntegration, fallBackFailedMessage, SendResult } from '../modules/messages/messages.service';
+import { enqueueComplianceBatch, releaseContactSend } from '../lib/sender-engine';
+import { getCampaignSendWindow, getSendWindowDelaySeconds, hasSendWindow } from '../lib/send-window';
+import { resolveContactTimezone } from '../lib/timezone';
+import { takeIntegrationToken } from '../lib/rate-limiter';
+import { evaluateAbTest } from '../modules/campaigns/ab-testing.service';
+import { runRecurringCampaign } from '../modules/campaigns/recurring.service';
+import { checkCampaignCompletion } from '../modules/campaigns/campaign-report.service';
+import { processEmailBounce, pollBounceMailboxes } from '../modules/messages/email-bounces.service';
+import { handleInboundKeyword } from '../modules/contacts/keywords.service';
+import { sendQueuedConsentConfirmation } from '../modules/contacts/consent.service';
+
+const BOUNCE_POLL_INTERVAL_MS = 5 * 60 * 1000;
 
 // Campaign processor - queues individual messages
 async function processCampaign(job: Job<{ campaignId: string; userId: string }>) {
   const { campaignId, userId } = job.data;
 
+  if (job.name === 'evaluate-ab-test') {
+    console.log(`[Campaign Worker] Evaluating A/B test for campaign ${campaignId}`);
+    return evaluateAbTest(campaignId);
+  }
+
+  if (job.name === 'recurring-run') {
+    console.log(`[Campaign Worker] Starting recurring run for campaign ${campaignId}`);
+    return runRecurringCampaign(campaignId);
+  }
+
   console.log(`[Campaign Worker] Processing campaign ${campaignId}`);
 
   // Get campaign details
@@ -24,7 +54,7 @@ async function processCampaign(job: Job<{ campaignId: string; userId: string }>)
     return;
   }
 
-  const { queued } = await enqueueComplianceBatch({
+  const { queued, deferred, retryAfterSeconds } = await enqueueComplianceBatch({
     tenantId: campaign.tenantId,
     userId,
     campaignId,
@@ -32,8 +62,20 @@ async function processCampaign(job: Job<{ campaignId: string; userId: string }>)
     dailyLimit: campaign.dailyLimit,
     minDelaySeconds: campaign.minDelay,
     maxDelaySeconds: campaign.maxDelay,
+    cooldownSeconds: campaign.contactCooldown,
   });
 
+  const { addCampaignJob } = await import('../lib/queue');
+
+  // Contacts still cooling down are retried once the earliest cooldown expires
+  if (deferred > 0) {
+    const retryDelay = (retryAfterSeconds || campaign.contactCooldown) * 1000;
+    await addCampaignJob({ campaignId, userId }, retryDelay, `${campaignId}-retry-${Date.now()}`);
+
+    console.log(`[Campaign Worker] Deferred ${deferred} messages for campaign ${campaignId} (cooldown)`);
+    return { processed: queued, deferred };
+  }
+
   // Check if we need to schedule next batch
   const remainingMessages = await prisma.message.count({
     where: {
@@ -48,7 +90,6 @@ async function processCampaign(job: Job<{ campaignId: string; userId: string }>)
     tomorrow.setDate(tomorrow.getDate() + 1);
     tomorrow.setHours(0, 0, 0, 0);
 
-    const { addCampaignJob } = await import('../lib/queue');
     await addCampaignJob({ campaignId, userId }, tomorrow.getTime() - Date.now());
     
     // Reset sent count for next day
@@ -60,15 +101,53 @@ async function processCampaign(job: Job<{ campaignId: string; userId: string }>)
     console.log(`[Campaign Worker] Scheduled next batch for ${tomorrow}`);
   }
 
-  return { processed: pendingMessages.length, nextBatch: remainingMessages > 0 };
+  // Everything may already be settled (e.g. all sends failed before this batch ran)
+  if (remainingMessages === 0 && queued === 0) {
+    await checkCampaignCompletion(campaignId);
+  }
+
+  return { processed: queued, nextBatch: remainingMessages > 0 };
+}
+
+// Double opt-in confirmation queued by an import; waits for the same integration tokens as campaign sends
+async function processConsentConfirmation(job: Job<ConsentConfirmationJobData>, token?: string) {
+  const { consentId } = job.data;
+
+  const consent = await prisma.contactConsent.findUnique({
+    where: { id: consentId },
+    include: { contact: true },
+  });
+
+  if (!consent || consent.status !== 'PENDING') {
+    return;
+  }
+
+  const integration = await getActiveIntegration(consent.tenantId, consent.contact.userId, consent.channel);
+  if (integration) {
+    const waitMs = await takeIntegrationToken(integration);
+
+    if (waitMs > 0) {
+      await job.moveToDelayed(Date.now() + waitMs, token);
+      throw new DelayedError();
+    }
+  }
+
+  console.log(`[Message Worker] Sending consent confirmation ${consentId}`);
+  await sendQueuedConsentConfirmation(consentId);
 }
 
 // Message processor - sends individual messages
-async function processMessageJob(job: Job<MessageJobData>) {
-  const { messageId, campaignId } = job.data;
+async function processMessageJob(job: Job<MessageJobData>, token?: string) {
+  if (job.name === CONSENT_CONFIRMATION_JOB) {
+    return processConsentConfirmation(job as unknown as Job<ConsentConfirmationJobData>, token);
+  }
+
+  const { messageId, campaignId, contactId, channel } = job.data;
 
   console.log(`[Message Worker] Sending message ${messageId}`);
 
+  let result: SendResult | undefined;
+
   try {
     // Check if campaign is still running
     const campaign = await prisma.campaign.findUnique({
@@ -77,11 +156,50 @@ async function processMessageJob(job: Job<MessageJobData>) {
 
     if (!campaign || campaign.status !== 'RUNNING') {
       console.log(`[Message Worker] Campaign ${campaignId} not running, skipping message ${messageId}`);
+
+      // Back to PENDING so the batch after a resume sends it; the contact wasn't messaged
+      if (campaign) {
+        const { count } = await prisma.message.updateMany({
+          where: { id: messageId, status: 'QUEUED' },
+          data: { status: 'PENDING' },
+        });
+        if (count > 0) {
+          await releaseContactSend(campaign.tenantId, contactId, campaign.channel);
+        }
+      }
       return;
     }
 
-    await processMessage(messageId);
+    // Jobs can run late (retries, backlog), so re-check the recipient's sending window
+    const sendWindow = getCampaignSendWindow(campaign);
+    if (hasSendWindow(sendWindow)) {
+      const contact = await prisma.contact.findUnique({ where: { id: contactId } });
+      const waitSeconds = contact ? getSendWindowDelaySeconds(sendWindow, resolveContactTimezone(contact)) : 0;
+
+      if (waitSeconds > 0) {
+        console.log(`[Message Worker] Outside sending window, delaying message ${messageId} by ${waitSeconds}s`);
+        await job.moveToDelayed(Date.now() + waitSeconds * 1000, token);
+        throw new DelayedError();
+      }
+    }
+
+    // Provider throughput limits are shared by all replicas; wait for a token instead of failing
+    const integration = await getActiveIntegration(campaign.tenantId, campaign.userId, channel as Channel);
+    if (integration) {
+      const waitMs = await takeIntegrationToken(integration);
+
+      if (waitMs > 0) {
+        await job.moveToDelayed(Date.now() + waitMs, token);
+        throw new DelayedError();
+      }
+    }
+
+    result = await processMessage(messageId);
   } catch (error: any) {
+    if (error instanceof DelayedError) {
+      throw error;
+    }
+
     console.error(`[Message Worker] Error sending message ${messageId}:`, error.message);
     
     // Update message as failed
@@ -96,27 +214,104 @@ async function processMessageJob(job: Job<MessageJobData>) {
 
     throw error;
   }
+
+  // Suppressed messages are final without a retry or dead-letter entry
+  if (result && !result.success && !result.fallbackChannel && !result.suppressed) {
+    await handleSendFailure(job, token, result);
+  }
+}
+
+const RATE_LIMITED_DELAY_MS = 60 * 1000;
+// Throttled sends are delayed without using up attempts; past this they count as failed
+const MAX_RATE_LIMITED_RETRIES = 10;
+
+// Provider failures: delay on throttling, retry transient errors, fail everything else for good
+async function handleSendFailure(job: Job<MessageJobData>, token: string | undefined, result: SendResult) {
+  const { messageId } = job.data;
+  const error = result.error || 'Send failed';
+
+  const requeueMessage = () =>
+    prisma.message.update({
+      where: { id: messageId },
+      data: { status: 'QUEUED', failedAt: null, retryCount: { increment: 1 } },
+    });
+
+  switch (result.errorType) {
+    case 'RATE_LIMITED': {
+      const message = await prisma.message.findUnique({ where: { id: messageId }, select: { retryCount: true } });
+      if ((message?.retryCount || 0) >= MAX_RATE_LIMITED_RETRIES) {
+        throw new UnrecoverableError(error);
+      }
+
+      await requeueMessage();
+      console.log(`[Message Worker] Provider throttled message ${messageId}, delaying`);
+      await job.moveToDelayed(Date.now() + (result.retryAfterMs || RATE_LIMITED_DELAY_MS), token);
+      throw new DelayedError();
+    }
+
+    case 'TRANSIENT':
+      // Keep the message sendable while BullMQ still has attempts left
+      if (job.attemptsMade + 1 < (job.opts.attempts ?? 1)) {
+        await requeueMessage();
+      }
+      throw new Error(error);
+
+    default:
+      throw new UnrecoverableError(error);
+  }
+}
+
+// Exhausted and permanently failed jobs are parked for inspection/requeue
+async function moveToDeadLetter(job: Job<MessageJobData>, err: Error) {
+  const message = await prisma.message.findUnique({
+    where: { id: job.data.messageId },
+    select: { errorType: true },
+  });
+
+  await addDeadLetterJob({
+    ...job.data,
+    errorType: message?.errorType || 'TRANSIENT',
+    error: err.message,
+    attemptsMade: job.attemptsMade,
+    failedAt: new Date().toISOString(),
+  });
 }
 
 // Webhook processor - handles incoming webhooks
-async function processWebhook(job: Job<any>) {
-  const { channel, event, payload } = job.data;
+async function processWebhook(job: Job<WebhookJobData>) {
+  const { channel, event, payload, integrationId } = job.data;
 
   console.log(`[Webhook Worker] Processing ${channel} ${event}`);
 
+  // The integration the webhook was verified against decides which tenant's data it may touch
+  const integration = integrationId
+    ? await prisma.integration.findUnique({ where: { id: integrationId } })
+    : null;
+
+  // Scheduled bounce polling is the only job that isn't tied to one tenant's webhook
+  if (channel === 'EMAIL' && event === 'bounce_poll') {
+    await pollBounceMailboxes();
+    return;
+  }
+
+  if (!integration) {
+    console.log(`[Webhook Worker] No integration for ${channel} ${event} (${integrationId || 'legacy job'}), skipping`);
+    return;
+  }
+
   try {
     switch (channel) {
       case 'WHATSAPP':
-        await handleWhatsAppWebhook(event, payload);
+        await handleWhatsAppWebhook(event, payload, integration);
         break;
       case 'EMAIL':
-        // Handle email webhooks (deliverability, bounces)
+        await handleEmailWebhook(event, payload, integration);
         break;
       case 'SMS':
-        await handleSMSWebhook(event, payload);
+        await handleSMSWebhook(event, payload, integration);
         break;
       case 'TELEGRAM':
-        await handleTelegramWebhook(event, payload);
+        await handleTelegramWebhook(event, payload, integration);
         break;
     }
   } catch (error: any) {
@@ -125,78 +320,131 @@ async function processWebhook(job: Job<any>) {
   }
 }
 
-async function handleWhatsAppWebhook(event: string, payload: any) {
+// Provider status callbacks can arrive out of order; never move a message backwards
+async function applyDeliveryStatus(
+  externalId: string,
+  status: 'DELIVERED' | 'READ' | 'FAILED' | null,
+  tenantId: string,
+) {
+  if (!status) return;
+
+  const now = new Date();
+
+  switch (status) {
+    case 'DELIVERED':
+      await prisma.message.updateMany({
+        where: { externalId, tenantId, status: { in: ['QUEUED', 'SENT'] } },
+        data: { status: 'DELIVERED', deliveredAt: now },
+      });
+      break;
+    case 'READ':
+      await prisma.message.updateMany({
+        where: { externalId, tenantId, status: { in: ['QUEUED', 'SENT', 'DELIVERED'] } },
+        data: { status: 'READ', readAt: now },
+      });
+      break;
+    case 'FAILED':
+      await prisma.message.updateMany({
+        where: { externalId, tenantId, status: { in: ['QUEUED', 'SENT'] } },
+        data: { status: 'FAILED', failedAt: now },
+      });
+      break;
+  }
+}
+
+// Attribute an inbound reply to the latest message we sent that contact
+async function markReplyReceived(contact: { phone?: string; telegramId?: string }, tenantId: string) {
+  const message = await prisma.message.findFirst({
+    where: {
+      tenantId,
+      contact,
+      status: { in: ['SENT', 'DELIVERED', 'READ'] },
+    },
+    orderBy: { sentAt: 'desc' },
+  });
+
+  if (message && !message.replyReceived) {
+    await prisma.message.update({
+      where: { id: message.id },
+      data: { replyReceived: true },
+    });
+  }
+}
+
+async function handleWhatsAppWebhook(event: string, payload: any, integration: Integration) {
   if (event === 'message_status') {
     const { messageId, status } = payload;
     
-    await prisma.message.updateMany({
-      where: { externalId: messageId },
-      data: {
-        status: status === 'delivered' ? 'DELIVERED' : status === 'failed' ? 'FAILED' : undefined,
-        deliveredAt: status === 'delivered' ? new Date() : undefined,
-      },
-    });
+    await applyDeliveryStatus(
+      messageId,
+      status === 'delivered' ? 'DELIVERED' :
+      status === 'read' ? 'READ' :
+      status === 'failed' ? 'FAILED' : null,
+      integration.tenantId,
+    );
   } else if (event === 'message_received') {
     // Handle incoming message (reply)
     const { from, text } = payload;
-    
-    // Check for unsubscribe keywords
-    const unsubscribeKeywords = ['stop', 'unsubscribe', 'cancel'];
-    if (unsubscribeKeywords.some(kw => text.toLowerCase().includes(kw))) {
-      // Find contact and unsubscribe
-      await prisma.contact.updateMany({
-        where: { phone: from },
-        data: { status: 'UNSUBSCRIBED' },
-      });
-    }
+
+    await markReplyReceived({ phone: from }, integration.tenantId);
+
+    // Opt-out / opt-in / HELP keywords (per-tenant configuration)
+    await handleInboundKeyword('WHATSAPP', { phone: from }, text, integration);
+  }
+}
+
+async function handleEmailWebhook(event: string, payload: any, integration: Integration) {
+  if (event === 'bounce') {
+    await processEmailBounce(payload, integration.tenantId);
   }
 }
 
-async function handleSMSWebhook(event: string, payload: any) {
+async function handleSMSWebhook(event: string, payload: any, integration: Integration) {
   if (event === 'status_callback') {
     const { MessageSid, MessageStatus } = payload;
     
-    await prisma.message.updateMany({
-      where: { externalId: MessageSid },
-      data: {
-        status: MessageStatus === 'delivered' ? 'DELIVERED' : 
-                MessageStatus === 'failed' ? 'FAILED' : undefined,
-        deliveredAt: MessageStatus === 'delivered' ? new Date() : undefined,
-      },
-    });
+    await applyDeliveryStatus(
+      MessageSid,
+      MessageStatus === 'delivered' ? 'DELIVERED' :
+      MessageStatus === 'read' ? 'READ' :
+      MessageStatus === 'failed' || MessageStatus === 'undelivered' ? 'FAILED' : null,
+      integration.tenantId,
+    );
   } else if (event === 'incoming_message') {
     const { From, Body } = payload;
-    
-    // Check for unsubscribe
-    if (Body.toLowerCase().includes('stop')) {
-      await prisma.contact.updateMany({
-        where: { phone: From },
-        data: { status: 'UNSUBSCRIBED' },
-      });
-    }
+
+    await markReplyReceived({ phone: From }, integration.tenantId);
+
+    await handleInboundKeyword('SMS', { phone: From }, Body, integration);
   }
 }
 
-async function handleTelegramWebhook(event: string, payload: any) {
+async function handleTelegramWebhook(event: string, payload: any, integration: Integration) {
   if (event === 'message') {
     const { message } = payload;
     const chatId = message.chat.id;
     const text = message.text;
 
+    if (text !== '/start') {
+      await markReplyReceived({ telegramId: String(chatId) }, integration.tenantId);
+    }
+
     // Handle /start command to capture chat_id
     if (text === '/start') {
       // The chat_id can be stored for future messages
       console.log(`[Webhook] Telegram user ${chatId} started bot`);
     }
 
-    // Check for unsubscribe
-    const unsubscribeKeywords = ['stop', 'unsubscribe', '/stop'];
-    if (unsubscribeKeywords.some(kw => text.toLowerCase().includes(kw))) {
-      await prisma.contact.updateMany({
-        where: { telegramId: String(chatId) },
-        data: { status: 'UNSUBSCRIBED' },
-      });
-    }
+    // "/stop" and "/start" are handled like the plain keywords
+    await handleInboundKeyword('TELEGRAM', { telegramId: String(chatId) }, text, integration);
+  }
+}
+
+async function checkCompletionSafely(campaignId: string) {
+  try {
+    await checkCampaignCompletion(campaignId);
+  } catch (error: any) {
+    console.error(`[Campaign Worker] Completion check failed for campaign ${campaignId}:`, error.message);
   }
 }
 
@@ -225,12 +473,36 @@ campaignWorker.on('failed', (job, err) => {
   console.error(`[Campaign Worker] Job ${job?.id} failed:`, err.message);
 });
 
-messageWorker.on('completed', (job) => {
+messageWorker.on('completed', async (job) => {
   console.log(`[Message Worker] Job ${job.id} completed`);
+  if (job.name === CONSENT_CONFIRMATION_JOB) return;
+  await checkCompletionSafely(job.data.campaignId);
 });
 
-messageWorker.on('failed', (job, err) => {
+messageWorker.on('failed', async (job, err) => {
   console.error(`[Message Worker] Job ${job?.id} failed:`, err.message);
+
+  if (!job || job.name === CONSENT_CONFIRMATION_JOB) return;
+
+  const exhausted = err.name === 'UnrecoverableError' || job.attemptsMade >= (job.opts.attempts ?? 1);
+  if (exhausted) {
+    // Out of retries on this channel: continue down the campaign's fallback chain before giving up
+    try {
+      if (await fallBackFailedMessage(job.data.messageId)) {
+        return;
+      }
+    } catch (error: any) {
+      console.error(`[Message Worker] Fallback failed for message ${job.data.messageId}:`, error.message);
+    }
+
+    try {
+      await moveToDeadLetter(job, err);
+    } catch (error: any) {
+      console.error(`[Message Worker] Could not dead-letter job ${job.id}:`, error.message);
+    }
+
+    await checkCompletionSafely(job.data.campaignId);
+  }
 });
 
 webhookWorker.on('completed', (job) => {
@@ -243,6 +515,10 @@ webhookWorker.on('failed', (job, err) => {
 
 console.log('[Workers] Campaign, Message, and Webhook workers started');
 
+scheduleBouncePolling(BOUNCE_POLL_INTERVAL_MS).catch((error) => {
+  console.error('[Workers] Failed to schedule bounce polling:', error.message);
+});
+
 // Graceful shutdown
 process.on('SIGTERM', async () => {
   console.log('[Workers] Shutting down...');